@@ -0,0 +1,114 @@
+/**
+ * Litet WebSocket-relä för synk mellan poängräknare och visare utan internet.
+ * Kör på en dator i hallen med `npm run relay` och bygg appen med
+ * VITE_SYNC_PROVIDER=websocket (och VITE_SYNC_WS_URL om reläet körs på en annan värd).
+ *
+ * Protokoll (JSON):
+ *   klient → relä: { type: 'subscribe' | 'unsubscribe', matchId } och
+ *                  { type: 'write', matchId, writeId, state, writeToken }
+ *   relä → klient: { type: 'state', matchId, state } och
+ *                  { type: 'ack', writeId, result: 'saved' | 'stale' | 'forbidden' }
+ * Reläet minns senaste state per match i minnet och skickar det direkt vid prenumeration.
+ * Första skrivningen till en match gör avsändarens skrivtoken till matchens ägare;
+ * skrivningar med annan token nekas. Skrivningar med äldre version än den sparade
+ * avvisas och avsändaren får tillbaka den nyare versionen. Skrivtoken skickas
+ * aldrig vidare till visarna.
+ */
+import { createHash } from 'node:crypto'
+import { WebSocketServer } from 'ws'
+
+const port = Number(process.env.PORT) || 8787
+const MAX_MESSAGE_BYTES = 1024 * 1024
+
+/** @type {Map<string, unknown>} */
+const latest = new Map()
+/** Hash av ägarens skrivtoken per match. @type {Map<string, string>} */
+const owners = new Map()
+/** @type {Map<string, Set<import('ws').WebSocket>>} */
+const subscribers = new Map()
+
+/** Samma regel som isStaleState i src/match-version.ts. */
+function isStale(incoming, current) {
+  const incomingVersion = Number(incoming.version) || 0
+  const currentVersion = Number(current.version) || 0
+  if (incomingVersion !== currentVersion) return incomingVersion < currentVersion
+  return (Number(incoming.updatedAt) || 0) < (Number(current.updatedAt) || 0)
+}
+
+function hashToken(token) {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function send(socket, message) {
+  if (socket.readyState === socket.OPEN) socket.send(JSON.stringify(message))
+}
+
+function unsubscribe(socket, matchId) {
+  const set = subscribers.get(matchId)
+  if (!set) return
+  set.delete(socket)
+  if (set.size === 0) subscribers.delete(matchId)
+}
+
+const server = new WebSocketServer({ port, maxPayload: MAX_MESSAGE_BYTES })
+
+server.on('connection', (socket) => {
+  /** @type {Set<string>} */
+  const subscriptions = new Set()
+
+  socket.on('message', (raw) => {
+    let message
+    try {
+      message = JSON.parse(raw.toString())
+    } catch {
+      return
+    }
+    const matchId = typeof message?.matchId === 'string' ? message.matchId : ''
+    if (!matchId) return
+
+    switch (message.type) {
+      case 'subscribe': {
+        const set = subscribers.get(matchId) ?? new Set()
+        set.add(socket)
+        subscribers.set(matchId, set)
+        subscriptions.add(matchId)
+        if (latest.has(matchId)) send(socket, { type: 'state', matchId, state: latest.get(matchId) })
+        break
+      }
+      case 'unsubscribe':
+        unsubscribe(socket, matchId)
+        subscriptions.delete(matchId)
+        break
+      case 'write': {
+        if (!message.state || typeof message.state !== 'object') return
+        if (typeof message.writeToken !== 'string' || !message.writeToken) return
+        const owner = owners.get(matchId)
+        if (owner && owner !== hashToken(message.writeToken)) {
+          send(socket, { type: 'ack', writeId: message.writeId, result: 'forbidden' })
+          return
+        }
+        const current = latest.get(matchId)
+        if (current && isStale(message.state, current)) {
+          send(socket, { type: 'ack', writeId: message.writeId, result: 'stale' })
+          send(socket, { type: 'state', matchId, state: current })
+          return
+        }
+        owners.set(matchId, hashToken(message.writeToken))
+        latest.set(matchId, message.state)
+        send(socket, { type: 'ack', writeId: message.writeId, result: 'saved' })
+        for (const subscriber of subscribers.get(matchId) ?? []) {
+          if (subscriber !== socket) send(subscriber, { type: 'state', matchId, state: message.state })
+        }
+        break
+      }
+    }
+  })
+
+  socket.on('close', () => {
+    for (const matchId of subscriptions) unsubscribe(socket, matchId)
+  })
+})
+
+server.on('listening', () => {
+  console.log(`Badminton-relä lyssnar på ws://0.0.0.0:${port}`)
+})
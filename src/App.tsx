@@ -1,192 +1,373 @@
-import { useState, useEffect, useRef } from 'react'
+import { useState, useEffect, useMemo, useRef, type CSSProperties } from 'react'
 import QRCode from 'qrcode'
 import { Html5Qrcode } from 'html5-qrcode'
-import { writeMatchState, subscribeMatchState, isFirebaseEnabled } from './firebase-sync'
+import { getBaseUrl } from './app-url'
+import {
+  writeDisplaySettings,
+  writeMatchState,
+  isRemoteSyncEnabled,
+  subscribeMatchState,
+  type SyncStatus,
+} from './sync'
+import { useMatchState } from './use-match-state'
+import { useDeviceDisplaySettings, useDisplaySettings } from './use-display-settings'
+import { useSyncStatus } from './use-sync-status'
+import { useNow } from './use-now'
+import { useWakeLock } from './use-wake-lock'
+import { useMessages } from './use-locale'
+import { getDateLocale, getMessages, type Messages } from './i18n'
+import { useAnnouncer, useAnnouncerSettings } from './use-announcer'
+import { isSpeechSupported, type AnnouncerSettings } from './announcer'
+import { useInputActions, useInputBindings } from './use-input-bindings'
+import type { InputAction } from './input-bindings'
+import { bumpVersion, isNewerState } from './match-version'
+import {
+  EMPTY_STATE,
+  MATCH_ID_STORAGE_KEY,
+  generateMatchId,
+  hasMatchData,
+  loadMatchState,
+  saveMatchState,
+} from './match-storage'
+import { downloadMatch, formatDuration, getMatchSummary } from './match-summary'
+import { getScoreSheet, openScoreSheet } from './score-sheet'
+import { downloadScoreSheetPdf } from './score-sheet-pdf'
+import MatchHistory from './MatchHistory'
+import PlayerRoster from './PlayerRoster'
+import StatsPage from './StatsPage'
+import TournamentPage from './TournamentPage'
+import VenueDisplay, { parseVenueCourts } from './VenueDisplay'
+import HandoverPage from './HandoverPage'
+import StreamOverlay, { OVERLAY_THEMES, getOverlayUrl, parseOverlayTheme, type OverlayTheme } from './StreamOverlay'
+import InputBindingsModal from './InputBindingsModal'
+import DisplaySettingsModal from './DisplaySettingsModal'
+import { getSideColor } from './display-settings'
+import LanguageSwitcher from './LanguageSwitcher'
+import { decodeMatchKeys, deleteMatchKeys, encodeMatchKeys, getOrCreateMatchKeys } from './match-keys'
+import {
+  assignPlayer,
+  createPlayer,
+  getPlayer,
+  getPlayerId,
+  loadPlayers,
+  savePlayers,
+  setPlayerName,
+  upsertPlayer,
+  type Player,
+  type PlayerSlot,
+} from './player-roster'
+import {
+  getIntervalRemaining,
+  getMatchWinner,
+  type GameScore,
+  type MatchInterval,
+  type MatchSituation,
+} from './match-rules'
+import { formatServiceCourt, getServiceSituation, getTeamName, opponentOf, type CourtPlayer } from './service'
+import {
+  recordCourtSwitch,
+  recordRally,
+  recordServerCorrection,
+  recordEndsChange,
+  redoAction,
+  undoLastAction,
+  type LogStart,
+  type MatchEvent,
+} from './match-log'
+import {
+  MATCH_FORMAT_PRESETS,
+  describeMatchFormat,
+  isSameMatchFormat,
+  parseMatchFormat,
+  type MatchFormat,
+} from './match-format'
 
 export type ServerPlayer = 1 | 2
 
 export interface ScoreboardState {
   name1: string
   name2: string
+  /** Dubbel – sidorna har två spelare var. */
+  doubles: boolean
+  /** Partner till name1/name2 i dubbel. */
+  partner1: string
+  partner2: string
+  /** Id i spelarregistret för respektive namnfält, eller null för fritext. */
+  player1Id: string | null
+  player2Id: string | null
+  partner1Id: string | null
+  partner2Id: string | null
+  /** Dubbel: vilken av sidans spelare som står i höger serveruta. */
+  rightCourt1: CourtPlayer
+  rightCourt2: CourtPlayer
   score1: number
   score2: number
   set1: number
   set2: number
+  /** Slutställning för varje avslutat game, i spelordning. */
+  games: GameScore[]
+  /** Tidpunkt för första bollen i pågående game (ms sedan epoch). */
+  gameStartedAt: number | null
+  /** Första bollen i matchen och avgörande boll – ger matchens speltid. */
+  matchStartedAt: number | null
+  matchEndedAt: number | null
+  /** Pågående paus vid pauspoängen eller mellan game, annars null. */
+  interval: MatchInterval | null
+  /** Gamepoäng, matchpoäng, deuce m.m. – härleds vid varje händelse och synkas så att tavlor slipper räkna. */
+  situation: MatchSituation
+  /** Sidan som spelar från vänster planhalva sett från domarstolen – byts vid sidbyte. */
+  ends: ServerPlayer
+  /** När matchen startades (ms sedan epoch). Saknas i äldre sparade matcher. */
+  createdAt: number | null
   /** Vem som servar från start (0-0). */
   serverAtStart: ServerPlayer
   /** Vem som servar nu – den som vann senaste poängen servar nästa boll. */
   currentServer: ServerPlayer
+  /** Matchformat – väljs vid "Starta ny match". */
+  format: MatchFormat
+  /** Händelselogg boll för boll – ställningen ovan är härledd ur den. */
+  events: MatchEvent[]
+  /** Ställningen när loggen började, eller null om loggen börjar vid 0-0. */
+  logStart: LogStart | null
+  /** Ökas vid varje ändring – används för att avvisa inaktuella synkade uppdateringar. */
+  version: number
+  /** När matchen senast ändrades på poängräknaren (ms sedan epoch). */
+  updatedAt: number | null
 }
 
-const MATCH_ID_STORAGE_KEY = 'badminton-current-match-id'
+/** Avslutade games, t.ex. "21–17 · 19–21", med speltid per game. */
+function GameHistory({ games, mirrored = false }: { games: GameScore[]; mirrored?: boolean }) {
+  const m = useMessages()
+  if (games.length === 0) return null
+  return (
+    <ol className="game-history" aria-label={m.counter.finishedGames}>
+      {games.map((game, i) => {
+        const left = mirrored ? game.score2 : game.score1
+        const right = mirrored ? game.score1 : game.score2
+        return (
+          <li key={i} className="game-history-item">
+            <span className="game-history-score">
+              {left}–{right}
+            </span>
+            <span className="game-history-duration">{formatDuration(game.durationMs)}</span>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
 
-function getMatchStorageKey(matchId: string): string {
-  return `badminton-match-${matchId}`
+/** Nedräkning för pågående paus. På tavlan täcker den hela skärmen. */
+function IntervalCountdown({ interval, fullscreen = false }: { interval: MatchInterval | null; fullscreen?: boolean }) {
+  const m = useMessages()
+  const now = useNow(interval !== null)
+  if (!interval) return null
+  const remaining = getIntervalRemaining(interval, now)
+  if (remaining === 0) return null
+  const kind = interval.kind === 'break' ? m.interval.break : m.interval.interval
+  const label = interval.changeEnds ? `${kind} · ${m.interval.changeEnds}` : kind
+  return (
+    <div className={fullscreen ? 'interval-countdown interval-fullscreen' : 'interval-countdown'} role="timer">
+      <span className="interval-label">{label}</span>
+      {/* Avrundat uppåt: visar 1:00 när pausen startar och 0:01 sista sekunden */}
+      <span className="interval-time">{formatDuration(remaining + 999)}</span>
+    </div>
+  )
 }
 
-function loadMatchState(matchId: string): ScoreboardState | null {
-  try {
-    const raw = localStorage.getItem(getMatchStorageKey(matchId))
-    if (raw) {
-      const data = JSON.parse(raw) as ScoreboardState
-      const serverAtStart = data.serverAtStart === 2 ? 2 : 1
-      const currentServer = data.currentServer === 2 ? 2 : 1
-      return {
-        name1: data.name1 ?? '',
-        name2: data.name2 ?? '',
-        score1: Number(data.score1) || 0,
-        score2: Number(data.score2) || 0,
-        set1: Number(data.set1) || 0,
-        set2: Number(data.set2) || 0,
-        serverAtStart,
-        currentServer: typeof data.currentServer === 'number' ? currentServer : serverAtStart,
-      }
-    }
-  } catch {
-    // ignore
+/** Märken för matchläget – gamepoäng, matchpoäng, deuce, avgörande boll och kommande paus. */
+function SituationBadges({ state }: { state: ScoreboardState }) {
+  const m = useMessages()
+  const { situation } = state
+  // Sidans namn när bara en sida har gamepoäng – vid t.ex. 29–29 har båda
+  const withSide = (label: string, sides: ServerPlayer[]) =>
+    sides.length === 1 ? `${label} · ${getTeamName(state, sides[0])}` : label
+  const badges: { kind: string; label: string }[] = []
+  if (situation.matchPoint.length > 0) {
+    badges.push({ kind: 'match-point', label: withSide(m.situation.matchPoint, situation.matchPoint) })
+  } else if (situation.gamePoint.length > 0) {
+    badges.push({ kind: 'game-point', label: withSide(m.situation.gamePoint, situation.gamePoint) })
   }
-  return null
+  if (situation.decidingPoint) {
+    badges.push({ kind: 'deciding-point', label: m.situation.decidingPoint(state.format.maxPoints - 1) })
+  } else if (situation.deuce) {
+    badges.push({ kind: 'deuce', label: m.situation.deuce })
+  }
+  if (situation.intervalDue) badges.push({ kind: 'interval-due', label: m.situation.intervalDue })
+  if (badges.length === 0) return null
+  return (
+    <div className="situation-badges" aria-live="polite">
+      {badges.map((badge) => (
+        <span key={badge.kind} className={`situation-badge ${badge.kind}`}>
+          {badge.label}
+        </span>
+      ))}
+    </div>
+  )
 }
 
-function saveMatchState(matchId: string, state: ScoreboardState): void {
-  localStorage.setItem(getMatchStorageKey(matchId), JSON.stringify(state))
+/** Uppmaning till domaren vid automatiskt sidbyte – visas tills den kvitteras eller nästa boll spelas. */
+function EndChangePrompt({ interval }: { interval: MatchInterval | null }) {
+  const m = useMessages()
+  const [acknowledged, setAcknowledged] = useState<number | null>(null)
+  if (!interval?.changeEnds || acknowledged === interval.startedAt) return null
+  return (
+    <div className="end-change-prompt" role="alert">
+      <span>{m.interval.endChangePrompt}</span>
+      <button type="button" className="btn-save" onClick={() => setAcknowledged(interval.startedAt)}>
+        {m.interval.ok}
+      </button>
+    </div>
+  )
 }
 
-const EMPTY_STATE: ScoreboardState = {
-  name1: '',
-  name2: '',
-  score1: 0,
-  score2: 0,
-  set1: 0,
-  set2: 0,
-  serverAtStart: 1,
-  currentServer: 1,
+interface AnnouncerControlsProps {
+  settings: AnnouncerSettings
+  onChange: (settings: AnnouncerSettings) => void
 }
 
-function getMatchSummary(
-  name1: string,
-  name2: string,
-  score1: number,
-  score2: number,
-  set1: number,
-  set2: number,
-  serverAtStart: ServerPlayer
-): string {
-  const date = new Date()
-  const dateStr = date.toLocaleDateString('sv-SE', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-    hour: '2-digit',
-    minute: '2-digit',
-  })
-  const p1 = name1.trim() || 'Spelare 1'
-  const p2 = name2.trim() || 'Spelare 2'
-  const setWinner = set1 > set2 ? p1 : set2 > set1 ? p2 : null
-  const pointWinner = score1 > score2 ? p1 : score2 > score1 ? p2 : null
-  const startedServing = serverAtStart === 1 ? p1 : p2
-  let text = `🏸 BADMINTON MATCH\n`
-  text += `${'═'.repeat(40)}\n\n`
-  text += `Datum: ${dateStr}\n\n`
-  text += `Set:   ${p1}  ${set1} – ${set2}  ${p2}\n`
-  text += `Poäng: ${p1}  ${score1} – ${score2}  ${p2}\n`
-  text += `Servar från start: ${startedServing}\n\n`
-  if (setWinner) {
-    text += `Matchvinnare (set): ${setWinner}\n`
-  }
-  if (pointWinner && pointWinner !== setWinner) {
-    text += `Senaste set (poäng): ${pointWinner}\n`
-  }
-  if (!setWinner && !pointWinner) {
-    text += `Oavgjort.\n`
-  }
-  text += `\n${'═'.repeat(40)}\n`
-  return text
+/** Utrop av/på, språk och volym. */
+function AnnouncerControls({ settings, onChange }: AnnouncerControlsProps) {
+  const m = useMessages()
+  if (!isSpeechSupported()) return null
+  return (
+    <div className="announcer-controls">
+      <button
+        type="button"
+        className="btn-swap"
+        onClick={() => onChange({ ...settings, enabled: !settings.enabled })}
+        aria-pressed={settings.enabled}
+      >
+        {settings.enabled ? m.announcer.on : m.announcer.off}
+      </button>
+      <select
+        className="name-input announcer-language"
+        value={settings.language}
+        onChange={(e) => onChange({ ...settings, language: e.target.value === 'en' ? 'en' : 'sv' })}
+        aria-label={m.announcer.language}
+      >
+        <option value="sv">Svenska</option>
+        <option value="en">English</option>
+      </select>
+      <input
+        type="range"
+        className="announcer-volume"
+        min={0}
+        max={1}
+        step={0.1}
+        value={settings.volume}
+        onChange={(e) => onChange({ ...settings, volume: Number(e.target.value) })}
+        aria-label={m.announcer.volume}
+        disabled={!settings.enabled}
+      />
+    </div>
+  )
 }
 
-function downloadMatch(summary: string): void {
-  const blob = new Blob([summary], { type: 'text/plain;charset=utf-8' })
-  const date = new Date()
-  const filename = `badminton_${date.toISOString().slice(0, 10)}_${Date.now().toString(36)}.txt`
-  const a = document.createElement('a')
-  a.href = URL.createObjectURL(blob)
-  a.download = filename
-  a.click()
-  URL.revokeObjectURL(a.href)
+const PLAYER_DATALIST_ID = 'player-roster-names'
+
+/** Liten rund bild eller färgprick för en spelare i registret. */
+function PlayerAvatar({ player }: { player: Player | null }) {
+  if (!player || (!player.photo && !player.color)) return null
+  if (player.photo) {
+    return <img className="player-avatar" src={player.photo} alt="" />
+  }
+  return <span className="player-avatar" style={{ background: player.color ?? undefined }} aria-hidden />
 }
 
 interface PlayerSideProps {
   label: string
   name: string
   onNameChange: (value: string) => void
+  /** Anropas när namnfältet lämnas – okända namn läggs till i spelarregistret. */
+  onNameBlur: () => void
+  /** Spelaren i registret som namnet är kopplat till. */
+  player: Player | null
+  /** Dubbel: partnerns namn. Utelämnas i singel. */
+  partner?: string
+  onPartnerChange?: (value: string) => void
+  onPartnerBlur?: () => void
+  partnerPlayer?: Player | null
+  onSwitchCourts?: () => void
   score: number
-  onScoreChange: (delta: number) => void
+  onPoint: () => void
   set: number
-  onSetChange: (delta: number) => void
+  matchOver: boolean
 }
 
 function PlayerSide({
   label,
   name,
   onNameChange,
+  onNameBlur,
+  player,
+  partner,
+  onPartnerChange,
+  onPartnerBlur,
+  partnerPlayer,
+  onSwitchCourts,
   score,
-  onScoreChange,
+  onPoint,
   set,
-  onSetChange,
+  matchOver,
 }: PlayerSideProps) {
+  const m = useMessages()
   return (
     <div className="side">
-      <span className="side-label">{label}</span>
+      <span className="side-label">
+        <PlayerAvatar player={player} />
+        {partner !== undefined && <PlayerAvatar player={partnerPlayer ?? null} />}
+        {label}
+      </span>
       <input
         type="text"
         className="name-input"
         value={name}
         onChange={(e) => onNameChange(e.target.value)}
+        onBlur={onNameBlur}
         placeholder={label}
         maxLength={20}
+        list={PLAYER_DATALIST_ID}
+        autoComplete="off"
       />
+      {partner !== undefined && (
+        <>
+          <input
+            type="text"
+            className="name-input"
+            value={partner}
+            onChange={(e) => onPartnerChange?.(e.target.value)}
+            onBlur={onPartnerBlur}
+            placeholder={m.counter.partner}
+            maxLength={20}
+            list={PLAYER_DATALIST_ID}
+            autoComplete="off"
+          />
+          <button
+            type="button"
+            className="btn-swap"
+            onClick={onSwitchCourts}
+            aria-label={m.counter.switchCourts}
+            title={m.counter.switchCourtsTitle}
+          >
+            {m.counter.switchCourtsButton}
+          </button>
+        </>
+      )}
       <span className="score-display">{score}</span>
       <div className="score-controls">
         <button
           type="button"
           className="btn-score"
-          onClick={() => onScoreChange(-1)}
-          disabled={score <= 0}
-          aria-label="Minska poäng"
-        >
-          −
-        </button>
-        <button
-          type="button"
-          className="btn-score"
-          onClick={() => onScoreChange(1)}
-          aria-label="Öka poäng"
+          onClick={onPoint}
+          disabled={matchOver}
+          aria-label={m.counter.addPoint}
         >
           +
         </button>
       </div>
-      <span className="row-label">Set</span>
+      <span className="row-label">{m.common.set}</span>
       <span className="score-display set-display">{set}</span>
-      <div className="score-controls">
-        <button
-          type="button"
-          className="btn-score"
-          onClick={() => onSetChange(-1)}
-          disabled={set <= 0}
-          aria-label="Minska set"
-        >
-          −
-        </button>
-        <button
-          type="button"
-          className="btn-score"
-          onClick={() => onSetChange(1)}
-          aria-label="Öka set"
-        >
-          +
-        </button>
-      </div>
     </div>
   )
 }
@@ -197,8 +378,10 @@ interface SaveModalProps {
   onClose: () => void
   onCopy: () => void
   onDownload: () => void
-  copyLabel: string
-  downloadLabel: string
+  onPrintSheet: () => void
+  onDownloadPdf: () => void
+  copied: boolean
+  downloaded: boolean
 }
 
 function SaveModal({
@@ -207,9 +390,12 @@ function SaveModal({
   onClose,
   onCopy,
   onDownload,
-  copyLabel,
-  downloadLabel,
+  onPrintSheet,
+  onDownloadPdf,
+  copied,
+  downloaded,
 }: SaveModalProps) {
+  const m = useMessages()
   if (!open) return null
   return (
     <div
@@ -220,17 +406,23 @@ function SaveModal({
       aria-labelledby="modal-title"
     >
       <div className="modal">
-        <h2 id="modal-title">Matchresultat</h2>
+        <h2 id="modal-title">{m.saveModal.title}</h2>
         <pre>{summary}</pre>
         <div className="modal-buttons">
           <button type="button" className="btn-copy" onClick={onCopy}>
-            {copyLabel}
+            {copied ? m.common.copied : m.common.copy}
           </button>
           <button type="button" className="btn-save" onClick={onDownload}>
-            {downloadLabel}
+            {downloaded ? m.common.downloaded : m.common.downloadFile}
+          </button>
+          <button type="button" className="btn-save" onClick={onPrintSheet}>
+            {m.saveModal.printSheet}
+          </button>
+          <button type="button" className="btn-save" onClick={onDownloadPdf}>
+            {m.saveModal.downloadPdf}
           </button>
           <button type="button" className="btn-close" onClick={onClose}>
-            Stäng
+            {m.common.close}
           </button>
         </div>
       </div>
@@ -238,98 +430,322 @@ function SaveModal({
   )
 }
 
-function ScoreboardDisplay({ matchId }: { matchId: string }) {
-  const [state, setState] = useState<ScoreboardState>(() => loadMatchState(matchId) ?? EMPTY_STATE)
-  const [mirrored, setMirrored] = useState(false)
-  const storageKey = getMatchStorageKey(matchId)
+interface NewMatchModalProps {
+  open: boolean
+  initialFormat: MatchFormat
+  initialDoubles: boolean
+  onClose: () => void
+  onStart: (format: MatchFormat, doubles: boolean) => void
+}
+
+type FormatNumberField = 'pointsToWin' | 'maxPoints' | 'gamesToWin'
+
+function toFormatDraft(format: MatchFormat): Record<FormatNumberField, string> {
+  return {
+    pointsToWin: String(format.pointsToWin),
+    maxPoints: String(format.maxPoints),
+    gamesToWin: String(format.gamesToWin),
+  }
+}
+
+function NewMatchModal({ open, initialFormat, initialDoubles, onClose, onStart }: NewMatchModalProps) {
+  const m = useMessages()
+  const [format, setFormat] = useState<MatchFormat>(initialFormat)
+  /** Sifferfälten som de skrivs – tolkas och begränsas först när fältet lämnas eller matchen startas. */
+  const [draft, setDraft] = useState(() => toFormatDraft(initialFormat))
+  const [doubles, setDoubles] = useState(initialDoubles)
 
   useEffect(() => {
-    const onStorage = (e: StorageEvent) => {
-      if (e.key === storageKey && e.newValue) {
-        try {
-          setState(JSON.parse(e.newValue) as ScoreboardState)
-        } catch {
-          // ignore
-        }
-      }
+    if (open) {
+      setFormat(initialFormat)
+      setDraft(toFormatDraft(initialFormat))
+      setDoubles(initialDoubles)
     }
-    window.addEventListener('storage', onStorage)
-    return () => window.removeEventListener('storage', onStorage)
-  }, [storageKey])
+  }, [open, initialFormat, initialDoubles])
+
+  if (!open) return null
+
+  const parsedFormat = parseMatchFormat({ ...format, ...draft })
+
+  const selectFormat = (next: MatchFormat) => {
+    setFormat(next)
+    setDraft(toFormatDraft(next))
+  }
+
+  const renderNumberField = (key: FormatNumberField, label: string, min: number) => (
+    <label className="format-field">
+      <span>{label}</span>
+      <input
+        type="number"
+        min={min}
+        value={draft[key]}
+        onChange={(e) => setDraft((d) => ({ ...d, [key]: e.target.value }))}
+        onBlur={() => selectFormat(parsedFormat)}
+      />
+    </label>
+  )
+
+  return (
+    <div
+      className="modal-overlay"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="new-match-modal-title"
+    >
+      <div className="modal format-modal">
+        <h2 id="new-match-modal-title">{m.newMatch.title}</h2>
+        <div className="format-presets">
+          <button
+            type="button"
+            className={`btn-server format-preset ${!doubles ? 'active' : ''}`}
+            onClick={() => setDoubles(false)}
+            aria-pressed={!doubles}
+          >
+            {m.newMatch.singles}
+          </button>
+          <button
+            type="button"
+            className={`btn-server format-preset ${doubles ? 'active' : ''}`}
+            onClick={() => setDoubles(true)}
+            aria-pressed={doubles}
+          >
+            {m.newMatch.doubles}
+          </button>
+        </div>
+        <div className="format-presets">
+          {MATCH_FORMAT_PRESETS.map((preset) => (
+            <button
+              key={preset.id}
+              type="button"
+              className={`btn-server format-preset ${isSameMatchFormat(preset.format, parsedFormat) ? 'active' : ''}`}
+              onClick={() => selectFormat(preset.format)}
+            >
+              {m.format.presets[preset.id]}
+            </button>
+          ))}
+        </div>
+        <div className="format-fields">
+          {renderNumberField('pointsToWin', m.newMatch.pointsToWin, 1)}
+          {renderNumberField('maxPoints', m.newMatch.maxPoints, parsedFormat.pointsToWin)}
+          {renderNumberField('gamesToWin', m.newMatch.gamesToWin, 1)}
+          <label className="format-field">
+            <span>{m.newMatch.scoring}</span>
+            <select
+              value={format.scoring}
+              onChange={(e) => setFormat((f) => ({ ...f, scoring: e.target.value === 'sideout' ? 'sideout' : 'rally' }))}
+            >
+              <option value="rally">{m.newMatch.rally}</option>
+              <option value="sideout">{m.newMatch.sideout}</option>
+            </select>
+          </label>
+        </div>
+        <p className="format-summary">{describeMatchFormat(parsedFormat)}</p>
+        <div className="modal-buttons">
+          <button type="button" className="btn-save" onClick={() => onStart(parsedFormat, doubles)}>
+            {m.newMatch.start}
+          </button>
+          <button type="button" className="btn-close" onClick={onClose}>
+            {m.common.cancel}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Överlämning av skrivrätten: QR-koden bär matchens nycklar så att en annan
+ * enhet kan fortsätta räkna. Den här enheten släpper nycklarna när den är klar.
+ */
+function HandoverModal({
+  matchId,
+  onClose,
+  onHandedOver,
+}: {
+  matchId: string
+  onClose: () => void
+  onHandedOver: () => void
+}) {
+  const m = useMessages()
+  const [qrDataUrl, setQrDataUrl] = useState<string | null>(null)
+  const handoverUrl = `${getBaseUrl()}?handover=1&match=${encodeURIComponent(matchId)}&keys=${encodeMatchKeys(getOrCreateMatchKeys(matchId))}`
 
   useEffect(() => {
-    const unsubscribe = subscribeMatchState(matchId, (newState) => {
-      setState(newState)
-    })
-    return unsubscribe
-  }, [matchId])
+    QRCode.toDataURL(handoverUrl, { width: 260, margin: 2 }).then(setQrDataUrl).catch(() => setQrDataUrl(null))
+  }, [handoverUrl])
+
+  return (
+    <div
+      className="modal-overlay"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="handover-modal-title"
+    >
+      <div className="modal qr-modal">
+        <h2 id="handover-modal-title">{m.handover.title}</h2>
+        <p className="qr-modal-text">{m.handover.text}</p>
+        <div className="qr-modal-image-wrap">
+          {qrDataUrl ? (
+            <img src={qrDataUrl} alt={m.handover.qrAlt} className="qr-modal-image" />
+          ) : (
+            <span className="qr-modal-loading">{m.common.loadingQr}</span>
+          )}
+        </div>
+        <div className="modal-buttons">
+          <button type="button" className="btn-close" onClick={onClose}>
+            {m.common.cancel}
+          </button>
+          <button type="button" className="btn-save" onClick={onHandedOver}>
+            {m.handover.done}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
 
-  const p1Name = state.name1.trim() || 'Spelare 1'
-  const p2Name = state.name2.trim() || 'Spelare 2'
-  const leftName = mirrored ? p2Name : p1Name
-  const rightName = mirrored ? p1Name : p2Name
-  const leftScore = mirrored ? state.score2 : state.score1
-  const rightScore = mirrored ? state.score1 : state.score2
-  const leftSet = mirrored ? state.set2 : state.set1
-  const rightSet = mirrored ? state.set1 : state.set2
+function formatSyncStatus(status: SyncStatus, m: Messages['sync']): string {
+  const queued = m.updates(status.pending)
+  if (!status.provider) return m.none
+  if (status.writeDenied) return m.writeDenied
+  if (status.provider === 'broadcast') return m.tabs
+  if (!status.connected) return status.pending > 0 ? m.offlineQueued(queued) : m.offline
+  return status.pending > 0 ? m.sending(queued) : m.connected
+}
 
-  const currentServer = state.currentServer === 2 ? 2 : 1
-  const leftServes = currentServer === (mirrored ? 2 : 1)
+/** Synkstatus – ansluten, offline eller antal uppdateringar som väntar på att skickas. */
+function SyncStatusIndicator({ updatedAt }: { updatedAt?: number | null }) {
+  const m = useMessages()
+  const status = useSyncStatus()
+  const state = !status.provider
+    ? 'off'
+    : !status.connected || status.writeDenied
+      ? 'offline'
+      : status.pending > 0
+        ? 'pending'
+        : 'online'
+  return (
+    <p className={`sync-status sync-status-${state}`} role="status">
+      <span className="sync-status-dot" aria-hidden />
+      {formatSyncStatus(status, m.sync)}
+      {updatedAt ? ` · ${m.sync.updatedAt(new Date(updatedAt).toLocaleTimeString(getDateLocale()))}` : ''}
+    </p>
+  )
+}
+
+function ScoreboardDisplay({ matchId, readToken }: { matchId: string; readToken: string | null }) {
+  const m = useMessages()
+  const state = useMatchState(matchId, readToken)
+  const display = useDisplaySettings(matchId, readToken)
+  /** Tavlan står vid motsatt långsida – vänster och höger blir omvända mot domarstolen. */
+  const [mirrored, setMirrored] = useState(false)
+  // Utrop på tavlan slås på separat, så att en tavla i samma webbläsare som poängräknaren inte ropar ut dubbelt
+  const [storedAnnouncer] = useAnnouncerSettings()
+  const [speechOn, setSpeechOn] = useState(false)
+  const announcer = useMemo(() => ({ ...storedAnnouncer, enabled: speechOn }), [storedAnnouncer, speechOn])
+  useAnnouncer(state, announcer)
+  // Tavlan står ofta obevakad hela matchen – skärmen får inte somna
+  useWakeLock(true)
+
+  // Sidorna följer spelarna vid sidbyte (ends) och vänds om tavlan är speglad
+  const leftSide = mirrored ? opponentOf(state.ends) : state.ends
+  const flipped = leftSide === 2
+  const p1Name = getTeamName(state, 1)
+  const p2Name = getTeamName(state, 2)
+  const leftName = flipped ? p2Name : p1Name
+  const rightName = flipped ? p1Name : p2Name
+  const leftScore = flipped ? state.score2 : state.score1
+  const rightScore = flipped ? state.score1 : state.score2
+  const leftSet = flipped ? state.set2 : state.set1
+  const rightSet = flipped ? state.set1 : state.set2
+  const leftColor = getSideColor(display, flipped ? 2 : 1)
+  const rightColor = getSideColor(display, flipped ? 1 : 2)
 
-  const hasNoData =
-    state.name1 === '' &&
-    state.name2 === '' &&
-    state.score1 === 0 &&
-    state.score2 === 0 &&
-    state.set1 === 0 &&
-    state.set2 === 0
+  // Temat gäller hela sidan, även bakgrunden utanför tavlan
+  useEffect(() => {
+    if (display.theme === 'standard') return
+    const className = `tavla-theme-${display.theme}`
+    document.documentElement.classList.add(className)
+    return () => document.documentElement.classList.remove(className)
+  }, [display.theme])
+
+  const hasNoData = !hasMatchData(state)
 
-  const servingName = leftServes ? leftName : rightName
+  const service = getServiceSituation(state)
+  const matchWinner = getMatchWinner(state)
 
   return (
-    <div className="scoreboard-tavla">
+    <div
+      className={`scoreboard-tavla tavla-layout-${display.layout}`}
+      style={{ '--tavla-scale': display.fontScale } as CSSProperties}
+    >
+      {display.logo && <img className="tavla-logo" src={display.logo} alt="" />}
+      <SituationBadges state={state} />
       {hasNoData && (
         <p className="scoreboard-waiting">
-          {isFirebaseEnabled()
-            ? 'Väntar på matchdata från poängräknaren…'
-            : 'Väntar på matchdata. Öppna länken på samma enhet som poängräknaren, eller aktivera Firebase för synk mellan enheter.'}
+          {isRemoteSyncEnabled() ? m.display.waitingForCounter : m.display.waitingLocal}
         </p>
       )}
       <div className="scoreboard-board">
         <div className="tavla-side tavla-left">
+          {leftColor && <span className="tavla-color" style={{ background: leftColor }} aria-hidden />}
           <span className="tavla-name">{leftName}</span>
           <span className="tavla-score">{leftScore}</span>
-          <span className="tavla-sets">Set: {leftSet}</span>
+          <span className="tavla-sets">{m.display.sets(leftSet)}</span>
         </div>
         <span className="tavla-divider" aria-hidden>–</span>
         <div className="tavla-side tavla-right">
+          {rightColor && <span className="tavla-color" style={{ background: rightColor }} aria-hidden />}
           <span className="tavla-name">{rightName}</span>
           <span className="tavla-score">{rightScore}</span>
-          <span className="tavla-sets">Set: {rightSet}</span>
+          <span className="tavla-sets">{m.display.sets(rightSet)}</span>
         </div>
       </div>
-      <div className="tavla-serve">
-        <span className="tavla-serve-label">Servar</span>
-        <span className="tavla-serve-name">🏸 {servingName}</span>
-      </div>
+      <GameHistory games={state.games} mirrored={flipped} />
+      <IntervalCountdown interval={state.interval} fullscreen />
+      {matchWinner ? (
+        <div className="tavla-serve">
+          <span className="tavla-serve-label">{m.display.matchWinner}</span>
+          <span className="tavla-serve-name">🏆 {matchWinner === 1 ? p1Name : p2Name}</span>
+        </div>
+      ) : (
+        <div className="tavla-serve">
+          <span className="tavla-serve-label">{m.display.serving}</span>
+          <span className="tavla-serve-name">🏸 {service.server}</span>
+          <span className="tavla-serve-label">{m.display.serviceFrom(formatServiceCourt(service.court))}</span>
+          <span className="tavla-serve-name">{service.receiver}</span>
+        </div>
+      )}
       <button
         type="button"
         className="tavla-mirror"
         onClick={() => setMirrored((m) => !m)}
         aria-pressed={mirrored}
-        title={mirrored ? 'Slå av spegling' : 'Spegla tavlan'}
+        title={mirrored ? m.display.mirrorOff : m.display.mirrorOn}
       >
         ⇄
       </button>
+      {isSpeechSupported() && (
+        <button
+          type="button"
+          className="tavla-mirror tavla-announcer"
+          onClick={() => setSpeechOn((on) => !on)}
+          aria-pressed={speechOn}
+          aria-label={speechOn ? m.announcer.turnOff : m.announcer.turnOn}
+          title={speechOn ? m.announcer.turnOff : m.announcer.turnOn}
+        >
+          {speechOn ? '🔊' : '🔇'}
+        </button>
+      )}
+      <SyncStatusIndicator updatedAt={state.updatedAt} />
     </div>
   )
 }
 
-function generateMatchId(): string {
-  return crypto.randomUUID?.() ?? `match-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
-}
-
 function AppMain() {
+  const m = useMessages()
   const [matchId, setMatchId] = useState<string | null>(() => {
     try {
       return localStorage.getItem(MATCH_ID_STORAGE_KEY)
@@ -337,118 +753,271 @@ function AppMain() {
       return null
     }
   })
-  const [name1, setName1] = useState('')
-  const [name2, setName2] = useState('')
-  const [score1, setScore1] = useState(0)
-  const [score2, setScore2] = useState(0)
-  const [set1, setSet1] = useState(0)
-  const [set2, setSet2] = useState(0)
-  const [serverAtStart, setServerAtStart] = useState<ServerPlayer>(1)
-  const [currentServer, setCurrentServer] = useState<ServerPlayer>(1)
+  const [scoreboardState, setScoreboardState] = useState<ScoreboardState>(
+    () => (matchId ? loadMatchState(matchId) : null) ?? { ...EMPTY_STATE, createdAt: Date.now() }
+  )
   const [saveModalOpen, setSaveModalOpen] = useState(false)
   const [qrModalOpen, setQrModalOpen] = useState(false)
   const [qrModalMatchId, setQrModalMatchId] = useState<string | null>(null)
   const [qrDataUrl, setQrDataUrl] = useState<string | null>(null)
-  const [copyLabel, setCopyLabel] = useState('Kopiera')
-  const [downloadLabel, setDownloadLabel] = useState('Ladda ner fil')
-
-  const scoreboardState: ScoreboardState = {
-    name1,
-    name2,
-    score1,
-    score2,
-    set1,
-    set2,
-    serverAtStart,
-    currentServer,
-  }
+  const [overlayTheme, setOverlayTheme] = useState<OverlayTheme>('classic')
+  const [copied, setCopied] = useState(false)
+  const [downloaded, setDownloaded] = useState(false)
+  const [newMatchModalOpen, setNewMatchModalOpen] = useState(false)
+  const [handoverOpen, setHandoverOpen] = useState(false)
+  /** Ångrade åtgärder som kan göras om – töms när en ny händelse registreras. */
+  const [redoStack, setRedoStack] = useState<MatchEvent[][]>([])
+  const [players, setPlayers] = useState<Player[]>(loadPlayers)
+  const [announcer, setAnnouncer] = useAnnouncerSettings()
+  const [inputBindings, setInputBindings] = useInputBindings()
+  const [inputBindingsOpen, setInputBindingsOpen] = useState(false)
+  const [displaySettingsOpen, setDisplaySettingsOpen] = useState(false)
+  const [displaySettings, setDisplaySettings] = useDeviceDisplaySettings()
+  /** Senaste sparningen på enheten misslyckades, t.ex. full lagring – matchen synkas ändå. */
+  const [storageFull, setStorageFull] = useState(false)
+
+  const { score1, score2, set1, set2, serverAtStart, currentServer, format, doubles } = scoreboardState
+  const matchWinner = getMatchWinner(scoreboardState)
+  const service = getServiceSituation(scoreboardState)
 
   useEffect(() => {
     if (matchId) {
-      localStorage.setItem(MATCH_ID_STORAGE_KEY, matchId)
-      saveMatchState(matchId, scoreboardState)
+      try {
+        localStorage.setItem(MATCH_ID_STORAGE_KEY, matchId)
+        saveMatchState(matchId, scoreboardState)
+        setStorageFull(false)
+      } catch {
+        setStorageFull(true)
+      }
       writeMatchState(matchId, scoreboardState)
     }
-  }, [matchId, name1, name2, score1, score2, set1, set2, serverAtStart, currentServer])
+  }, [matchId, scoreboardState])
 
+  // Utseendet är enhetens – det skickas när matchen öppnas och vid varje ändring
+  useEffect(() => {
+    if (matchId) writeDisplaySettings(matchId, displaySettings)
+  }, [matchId, displaySettings])
+
+  // En annan poängräknare på samma match kan ha nyare data – ta i så fall över den
+  useEffect(() => {
+    if (!matchId) return
+    return subscribeMatchState(matchId, getOrCreateMatchKeys(matchId).readToken, (remote) => {
+      setScoreboardState((s) => (isNewerState(remote, s) ? remote : s))
+    })
+  }, [matchId])
+
+  // Visarlänken bär bara läsnyckeln – skrivtoken och signeringsnyckel stannar på enheten
+  const displayMatchId = qrModalMatchId ?? matchId
   const displayUrl =
-    typeof window !== 'undefined' && (qrModalMatchId ?? matchId)
-      ? `${window.location.origin}${window.location.pathname || '/'}?display=1&match=${encodeURIComponent(qrModalMatchId ?? matchId ?? '')}`
+    typeof window !== 'undefined' && displayMatchId
+      ? `${getBaseUrl()}?display=1&match=${encodeURIComponent(displayMatchId)}&key=${getOrCreateMatchKeys(displayMatchId).readToken}`
+      : ''
+  const overlayUrl =
+    typeof window !== 'undefined' && displayMatchId
+      ? getOverlayUrl(displayMatchId, getOrCreateMatchKeys(displayMatchId).readToken, overlayTheme)
       : ''
 
   useEffect(() => {
-    if (!qrModalOpen || !(qrModalMatchId ?? matchId)) return
-    const url = `${window.location.origin}${window.location.pathname || '/'}?display=1&match=${encodeURIComponent(qrModalMatchId ?? matchId ?? '')}`
-    QRCode.toDataURL(url, { width: 260, margin: 2 }).then(setQrDataUrl).catch(() => setQrDataUrl(null))
-  }, [qrModalOpen, qrModalMatchId, matchId])
-
-  const summary = getMatchSummary(name1, name2, score1, score2, set1, set2, serverAtStart)
-
-  const handleSwap = () => {
-    const n1 = name1
-    const n2 = name2
-    setName1(n2)
-    setName2(n1)
-    setScore1(0)
-    setScore2(0)
-    setSet1(set2)
-    setSet2(set1)
-    setServerAtStart((s) => (s === 1 ? 2 : 1))
-    setCurrentServer((s) => (s === 1 ? 2 : 1))
+    if (!qrModalOpen || !displayUrl) return
+    QRCode.toDataURL(displayUrl, { width: 260, margin: 2 }).then(setQrDataUrl).catch(() => setQrDataUrl(null))
+  }, [qrModalOpen, displayUrl])
+
+  useAnnouncer(scoreboardState, announcer)
+  // Domaren rör inte skärmen mellan bollarna – den ska inte släckas mitt i matchen
+  useWakeLock(true)
+
+  const summary = getMatchSummary(scoreboardState)
+
+  /** Ändrar matchen och ökar versionen så att synkade visare och poängräknare ser ändringen som nyare. */
+  const updateState = (update: (state: ScoreboardState) => ScoreboardState) => {
+    setScoreboardState((s) => {
+      const next = update(s)
+      return next === s ? s : bumpVersion(s, next, Date.now())
+    })
+  }
+
+  const record = (update: (state: ScoreboardState) => ScoreboardState) => {
+    // Matchen sparas (och syns i historiken) från första registrerade händelsen
+    if (!matchId) setMatchId(generateMatchId())
+    updateState(update)
+    setRedoStack([])
+  }
+
+  const handleEndsChange = () => record(recordEndsChange)
+
+  const handleNameChange = (slot: PlayerSlot, value: string) => {
+    updateState((s) => setPlayerName(s, slot, value, players))
+  }
+
+  /** Okända namn läggs till i spelarregistret när fältet lämnas. */
+  const handleNameBlur = (slot: PlayerSlot) => {
+    const name = scoreboardState[slot].trim()
+    if (!name || getPlayerId(scoreboardState, slot)) return
+    const player = createPlayer(name)
+    const next = upsertPlayer(players, player)
+    setPlayers(next)
+    savePlayers(next)
+    updateState((s) => assignPlayer(s, slot, player))
+  }
+
+  const handleUndo = () => {
+    const result = undoLastAction(scoreboardState)
+    if (!result) return
+    updateState(() => result.state)
+    setRedoStack((stack) => [...stack, result.undone])
+  }
+
+  const handleRedo = () => {
+    const undone = redoStack[redoStack.length - 1]
+    if (!undone) return
+    updateState((s) => redoAction(s, undone))
+    setRedoStack((stack) => stack.slice(0, -1))
+  }
+
+  const handleInputAction = (action: InputAction) => {
+    switch (action) {
+      case 'pointLeft':
+        return record((s) => recordRally(s, s.ends))
+      case 'pointRight':
+        return record((s) => recordRally(s, opponentOf(s.ends)))
+      case 'undo':
+        return handleUndo()
+      case 'redo':
+        return handleRedo()
+      case 'changeEnds':
+        return handleEndsChange()
+    }
+  }
+
+  // Knappar och handkontroll styr bara poängräkningen när ingen dialog är öppen
+  const anyModalOpen =
+    saveModalOpen || qrModalOpen || newMatchModalOpen || handoverOpen || inputBindingsOpen || displaySettingsOpen
+  useInputActions(inputBindings, handleInputAction, !anyModalOpen)
+
+  const startNewMatch = (selectedFormat: MatchFormat, selectedDoubles: boolean) => {
+    setMatchId(null)
+    setQrModalMatchId(null)
+    setQrDataUrl(null)
+    setScoreboardState({
+      ...EMPTY_STATE,
+      format: selectedFormat,
+      doubles: selectedDoubles,
+      createdAt: Date.now(),
+    })
+    setRedoStack([])
+    setQrModalOpen(false)
+    try {
+      localStorage.removeItem(MATCH_ID_STORAGE_KEY)
+    } catch {
+      // ignore
+    }
   }
 
   const handleCopy = () => {
     navigator.clipboard.writeText(summary).then(() => {
-      setCopyLabel('Kopierat!')
-      setTimeout(() => setCopyLabel('Kopiera'), 1500)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
     })
   }
 
   const handleDownload = () => {
     downloadMatch(summary)
-    setDownloadLabel('Nedladdad!')
-    setTimeout(() => setDownloadLabel('Ladda ner fil'), 1500)
+    setDownloaded(true)
+    setTimeout(() => setDownloaded(false), 1500)
   }
 
+  /** Sidans spelarkort – sidan till vänster är den som spelar från vänster planhalva (ends). */
+  const renderSide = (side: ServerPlayer) => {
+    const nameSlot = side === 1 ? 'name1' : 'name2'
+    const partnerSlot = side === 1 ? 'partner1' : 'partner2'
+    return (
+      <PlayerSide
+        label={m.service.player(side)}
+        name={scoreboardState[nameSlot]}
+        onNameChange={(value) => handleNameChange(nameSlot, value)}
+        onNameBlur={() => handleNameBlur(nameSlot)}
+        player={getPlayer(players, side === 1 ? scoreboardState.player1Id : scoreboardState.player2Id)}
+        partner={scoreboardState.doubles ? scoreboardState[partnerSlot] : undefined}
+        onPartnerChange={(value) => handleNameChange(partnerSlot, value)}
+        onPartnerBlur={() => handleNameBlur(partnerSlot)}
+        partnerPlayer={getPlayer(players, side === 1 ? scoreboardState.partner1Id : scoreboardState.partner2Id)}
+        onSwitchCourts={() => record((s) => recordCourtSwitch(s, side))}
+        score={side === 1 ? score1 : score2}
+        onPoint={() => record((s) => recordRally(s, side))}
+        set={side === 1 ? set1 : set2}
+        matchOver={matchWinner !== null}
+      />
+    )
+  }
+
+  const handlePrintSheet = () => openScoreSheet(getScoreSheet(scoreboardState))
+
+  const handleDownloadPdf = () => downloadScoreSheetPdf(getScoreSheet(scoreboardState))
+
   return (
     <>
-      <h1>🏸 Badminton Poängräknare</h1>
+      <h1>🏸 {m.appName}</h1>
+      <LanguageSwitcher />
+      <p className="match-format-info">{describeMatchFormat(format)}</p>
+      <SyncStatusIndicator />
+      {storageFull && (
+        <p className="scan-error" role="alert">
+          {m.counter.storageFull}
+        </p>
+      )}
+      <IntervalCountdown interval={scoreboardState.interval} />
+
+      <datalist id={PLAYER_DATALIST_ID}>
+        {players.map((p) => (
+          <option key={p.id} value={p.name}>
+            {p.club}
+          </option>
+        ))}
+      </datalist>
+
+      <EndChangePrompt interval={scoreboardState.interval} />
+      <SituationBadges state={scoreboardState} />
 
       <div className="court">
-        <PlayerSide
-          label="Spelare 1"
-          name={name1}
-          onNameChange={setName1}
-          score={score1}
-          onScoreChange={(d) => {
-            setScore1((s) => Math.max(0, s + d))
-            if (d > 0) setCurrentServer(1)
-            else if (d < 0) setCurrentServer(2)
-          }}
-          set={set1}
-          onSetChange={(d) => setSet1((s) => Math.max(0, s + d))}
-        />
+        {renderSide(scoreboardState.ends)}
 
         <div className="court-center">
           <span className="vs">VS</span>
           <button
             type="button"
             className="btn-swap"
-            onClick={handleSwap}
-            aria-label="Byt sida"
+            onClick={handleEndsChange}
+            aria-label={m.counter.changeEnds}
           >
-            ⇄ Byt sida
+            {m.counter.changeEndsButton}
           </button>
+          <div className="undo-redo">
+            <button
+              type="button"
+              className="btn-swap"
+              onClick={handleUndo}
+              disabled={scoreboardState.events.length === 0}
+              aria-label={m.counter.undo}
+            >
+              {m.counter.undoButton}
+            </button>
+            <button
+              type="button"
+              className="btn-swap"
+              onClick={handleRedo}
+              disabled={redoStack.length === 0}
+              aria-label={m.counter.redo}
+            >
+              {m.counter.redoButton}
+            </button>
+          </div>
           <div className="server-choice">
-            <span className="server-choice-label">Servar från start</span>
+            <span className="server-choice-label">{m.counter.serverAtStart}</span>
             <div className="server-choice-buttons">
               <button
                 type="button"
                 className={`btn-server ${currentServer === 1 ? 'active' : ''}`}
-                onClick={() => {
-                  setCurrentServer(1)
-                  if (score1 + score2 === 0) setServerAtStart(1)
-                }}
+                onClick={() => record((s) => recordServerCorrection(s, 1))}
                 aria-pressed={currentServer === 1}
               >
                 1
@@ -456,39 +1025,39 @@ function AppMain() {
               <button
                 type="button"
                 className={`btn-server ${currentServer === 2 ? 'active' : ''}`}
-                onClick={() => {
-                  setCurrentServer(2)
-                  if (score1 + score2 === 0) setServerAtStart(2)
-                }}
+                onClick={() => record((s) => recordServerCorrection(s, 2))}
                 aria-pressed={currentServer === 2}
               >
                 2
               </button>
             </div>
             <span className="server-choice-name" aria-live="polite">
-              {currentServer === 1 ? (name1.trim() || 'Spelare 1') : (name2.trim() || 'Spelare 2')}
+              {service.server}
+            </span>
+            <span className="server-choice-locked">
+              {m.counter.serviceFrom(formatServiceCourt(service.court), service.receiver)}
             </span>
-            {score1 + score2 > 0 && (
-              <span className="server-choice-locked">Började serva: {serverAtStart === 1 ? (name1.trim() || 'Spelare 1') : (name2.trim() || 'Spelare 2')}</span>
+            {score1 + score2 + set1 + set2 > 0 && (
+              <span className="server-choice-locked">
+                {m.counter.startedServing(getTeamName(scoreboardState, serverAtStart))}
+              </span>
             )}
           </div>
         </div>
 
-        <PlayerSide
-          label="Spelare 2"
-          name={name2}
-          onNameChange={setName2}
-          score={score2}
-          onScoreChange={(d) => {
-            setScore2((s) => Math.max(0, s + d))
-            if (d > 0) setCurrentServer(2)
-            else if (d < 0) setCurrentServer(1)
-          }}
-          set={set2}
-          onSetChange={(d) => setSet2((s) => Math.max(0, s + d))}
-        />
+        {renderSide(opponentOf(scoreboardState.ends))}
       </div>
 
+      <GameHistory games={scoreboardState.games} mirrored={scoreboardState.ends === 2} />
+
+      {matchWinner && (
+        <p className="match-winner" aria-live="polite">
+          {m.counter.wonMatch(getTeamName(scoreboardState, matchWinner), set1, set2)}
+        </p>
+      )}
+
+      <AnnouncerControls settings={announcer} onChange={setAnnouncer} />
+
       <div className="actions">
         <button
           type="button"
@@ -501,55 +1070,103 @@ function AppMain() {
             setQrModalOpen(true)
           }}
         >
-          📺 Visa QR för poängvisare
+          {m.counter.showDisplayQr}
+        </button>
+        <button type="button" className="btn-swap" onClick={() => setDisplaySettingsOpen(true)}>
+          {m.counter.displaySettings}
         </button>
+        {matchId && (
+          <button type="button" className="btn-swap" onClick={() => setHandoverOpen(true)}>
+            {m.counter.handOver}
+          </button>
+        )}
         <button
           type="button"
           className="btn-save"
           onClick={() => {
-            const base = `${window.location.origin}${window.location.pathname || '/'}`
-            window.location.href = `${base}?display=1`
+            window.location.href = `${getBaseUrl()}?display=1`
           }}
         >
-          📷 Skanna QR – öppna som poängvisare
+          {m.counter.openAsDisplay}
         </button>
         <button
           type="button"
           className="btn-save"
           onClick={() => setSaveModalOpen(true)}
         >
-          Spara match
+          {m.counter.saveMatch}
+        </button>
+        <button type="button" className="btn-swap" onClick={() => setInputBindingsOpen(true)}>
+          {m.counter.inputBindings}
         </button>
+        <a className="btn-swap" href={`${getBaseUrl()}?history=1`}>
+          {m.nav.history}
+        </a>
+        <a className="btn-swap" href={`${getBaseUrl()}?players=1`}>
+          {m.nav.players}
+        </a>
+        <a className="btn-swap" href={`${getBaseUrl()}?stats=1`}>
+          {m.nav.stats}
+        </a>
+        <a className="btn-swap" href={`${getBaseUrl()}?tournament=1`}>
+          {m.nav.tournament}
+        </a>
+        <a className="btn-swap" href={`${getBaseUrl()}?venue=1`}>
+          {m.nav.venue}
+        </a>
         <span className="save-info">
-          Ladda ner en fil med matchresultat eller kopiera till urklipp
+          {m.counter.saveInfo}
         </span>
         <button
           type="button"
           className="btn-swap save-info-link"
-          onClick={() => {
-            setMatchId(null)
-            setQrModalMatchId(null)
-            setQrDataUrl(null)
-            setName1('')
-            setName2('')
-            setScore1(0)
-            setScore2(0)
-            setSet1(0)
-            setSet2(0)
-            setServerAtStart(1)
-            setCurrentServer(1)
-            setQrModalOpen(false)
-            try {
-              localStorage.removeItem(MATCH_ID_STORAGE_KEY)
-            } catch {
-              // ignore
-            }
-          }}
+          onClick={() => setNewMatchModalOpen(true)}
         >
-          Starta ny match
+          {m.counter.newMatch}
         </button>
       </div>
 
+      <NewMatchModal
+        open={newMatchModalOpen}
+        initialFormat={format}
+        initialDoubles={doubles}
+        onClose={() => setNewMatchModalOpen(false)}
+        onStart={(selectedFormat, selectedDoubles) => {
+          setNewMatchModalOpen(false)
+          startNewMatch(selectedFormat, selectedDoubles)
+        }}
+      />
+
+      {inputBindingsOpen && (
+        <InputBindingsModal
+          bindings={inputBindings}
+          onChange={setInputBindings}
+          onClose={() => setInputBindingsOpen(false)}
+        />
+      )}
+
+      {displaySettingsOpen && (
+        <DisplaySettingsModal
+          settings={displaySettings}
+          sideNames={[getTeamName(scoreboardState, 1), getTeamName(scoreboardState, 2)]}
+          onChange={setDisplaySettings}
+          onClose={() => setDisplaySettingsOpen(false)}
+        />
+      )}
+
+      {handoverOpen && matchId && (
+        <HandoverModal
+          matchId={matchId}
+          onClose={() => setHandoverOpen(false)}
+          onHandedOver={() => {
+            // Enheten släpper skrivrätten – den andra enheten fortsätter matchen
+            deleteMatchKeys(matchId)
+            setHandoverOpen(false)
+            startNewMatch(format, doubles)
+          }}
+        />
+      )}
+
       {qrModalOpen && (
         <div
           className="modal-overlay"
@@ -565,15 +1182,13 @@ function AppMain() {
           aria-labelledby="qr-modal-title"
         >
           <div className="modal qr-modal">
-            <h2 id="qr-modal-title">Poängvisare – koppla enhet till denna match</h2>
-            <p className="qr-modal-text">
-              Skanna QR-koden med den enhet som ska visa poängen. Den enheten är då kopplad till denna match.
-            </p>
+            <h2 id="qr-modal-title">{m.displayQr.title}</h2>
+            <p className="qr-modal-text">{m.displayQr.text}</p>
             <div className="qr-modal-image-wrap">
               {qrDataUrl ? (
-                <img src={qrDataUrl} alt="QR-kod för poängvisare" className="qr-modal-image" />
+                <img src={qrDataUrl} alt={m.displayQr.qrAlt} className="qr-modal-image" />
               ) : (
-                <span className="qr-modal-loading">Laddar QR-kod…</span>
+                <span className="qr-modal-loading">{m.common.loadingQr}</span>
               )}
             </div>
             <div className="qr-modal-url-wrap">
@@ -582,7 +1197,7 @@ function AppMain() {
                 readOnly
                 className="qr-modal-url"
                 value={displayUrl || ''}
-                aria-label="Länk till poängvisare"
+                aria-label={m.displayQr.link}
               />
               <button
                 type="button"
@@ -591,7 +1206,39 @@ function AppMain() {
                   if (displayUrl) navigator.clipboard.writeText(displayUrl)
                 }}
               >
-                Kopiera länk
+                {m.displayQr.copyLink}
+              </button>
+            </div>
+            <h3 className="qr-modal-subtitle">{m.displayQr.overlayTitle}</h3>
+            <p className="qr-modal-text">{m.displayQr.overlayText}</p>
+            <div className="qr-modal-url-wrap">
+              <select
+                className="name-input"
+                value={overlayTheme}
+                onChange={(e) => setOverlayTheme(parseOverlayTheme(e.target.value))}
+                aria-label={m.displayQr.overlayTheme}
+              >
+                {OVERLAY_THEMES.map((theme) => (
+                  <option key={theme} value={theme}>
+                    {m.overlay.themes[theme]}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="text"
+                readOnly
+                className="qr-modal-url"
+                value={overlayUrl}
+                aria-label={m.displayQr.overlayLink}
+              />
+              <button
+                type="button"
+                className="btn-copy"
+                onClick={() => {
+                  if (overlayUrl) navigator.clipboard.writeText(overlayUrl)
+                }}
+              >
+                {m.displayQr.copyOverlayLink}
               </button>
             </div>
             <button
@@ -603,7 +1250,7 @@ function AppMain() {
                   setQrDataUrl(null)
                 }}
               >
-              Stäng
+              {m.common.close}
             </button>
           </div>
         </div>
@@ -615,8 +1262,10 @@ function AppMain() {
         onClose={() => setSaveModalOpen(false)}
         onCopy={handleCopy}
         onDownload={handleDownload}
-        copyLabel={copyLabel}
-        downloadLabel={downloadLabel}
+        onPrintSheet={handlePrintSheet}
+        onDownloadPdf={handleDownloadPdf}
+        copied={copied}
+        downloaded={downloaded}
       />
     </>
   )
@@ -624,16 +1273,30 @@ function AppMain() {
 
 const QR_READER_ID = 'badminton-qr-reader'
 
-function getMatchIdFromUrl(urlString: string): string | null {
+/**
+ * Sökparametrar att öppna för en skannad QR-kod: visarlänk (match + läsnyckel)
+ * eller överlämningslänk. Null om koden inte är en länk till en match.
+ */
+function getScannedParams(urlString: string): string | null {
   try {
     const url = new URL(urlString)
-    return url.searchParams.get('match')
+    const matchId = url.searchParams.get('match')
+    if (!matchId) return null
+    const params = new URLSearchParams({ match: matchId })
+    if (url.searchParams.get('handover') === '1') {
+      params.set('keys', url.searchParams.get('keys') ?? '')
+      return `?handover=1&${params}`
+    }
+    const readToken = url.searchParams.get('key')
+    if (readToken) params.set('key', readToken)
+    return `?display=1&${params}`
   } catch {
     return null
   }
 }
 
 function DisplayScanConnect() {
+  const m = useMessages()
   const [scanning, setScanning] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const scannerRef = useRef<Html5Qrcode | null>(null)
@@ -652,23 +1315,22 @@ function DisplayScanConnect() {
         { facingMode: 'environment' },
         { fps: 10, qrbox: { width: 220, height: 220 } },
         (decodedText) => {
-          const matchId = getMatchIdFromUrl(decodedText)
-          if (matchId) {
+          const search = getScannedParams(decodedText)
+          if (search) {
             scanner.stop().then(() => {
               scannerRef.current = null
               setScanning(false)
-              const base = `${window.location.origin}${window.location.pathname || '/'}`
-              window.location.href = `${base}?display=1&match=${encodeURIComponent(matchId)}`
+              window.location.href = `${getBaseUrl()}${search}`
             }).catch(() => {
               setScanning(false)
-              window.location.href = `${window.location.pathname || '/'}?display=1&match=${encodeURIComponent(matchId)}`
+              window.location.href = `${window.location.pathname || '/'}${search}`
             })
           }
         },
         () => {}
       )
       .catch((err: Error) => {
-        setError(err?.message ?? 'Kunde inte starta kameran')
+        setError(err?.message ?? getMessages().scan.cameraError)
         setScanning(false)
         scannerRef.current = null
       })
@@ -690,10 +1352,8 @@ function DisplayScanConnect() {
 
   return (
     <div className="scoreboard-display scoreboard-connect">
-      <h1 className="scoreboard-title">🏸 Poängvisare</h1>
-      <p className="scoreboard-error-text">
-        Koppla denna enhet till en match genom att skanna QR-koden som visas i poängräknaren.
-      </p>
+      <h1 className="scoreboard-title">{m.scan.title}</h1>
+      <p className="scoreboard-error-text">{m.scan.text}</p>
 
       {!scanning ? (
         <button
@@ -701,14 +1361,14 @@ function DisplayScanConnect() {
           className="btn-save scan-connect-btn"
           onClick={() => setScanning(true)}
         >
-          📷 Skanna QR för att koppla till match
+          {m.scan.start}
         </button>
       ) : (
         <div className="scan-area">
           <div id={QR_READER_ID} className="qr-reader-container" />
           {error && <p className="scoreboard-error-text scan-error">{error}</p>}
           <button type="button" className="btn-close scan-cancel-btn" onClick={handleCancel}>
-            Avbryt
+            {m.common.cancel}
           </button>
         </div>
       )}
@@ -720,11 +1380,30 @@ export default function App() {
   if (typeof window === 'undefined') return null
   const params = new URLSearchParams(window.location.search)
   const isDisplayMode = params.get('display') === '1'
+  const isHistoryMode = params.get('history') === '1'
+  const isPlayersMode = params.get('players') === '1'
+  const isStatsMode = params.get('stats') === '1'
+  const isTournamentMode = params.get('tournament') === '1'
+  const isVenueMode = params.get('venue') === '1'
+  const isHandoverMode = params.get('handover') === '1'
+  const isOverlayMode = params.get('overlay') === '1'
   const matchId = params.get('match') ?? ''
 
   if (isDisplayMode) {
     if (!matchId) return <DisplayScanConnect />
-    return <ScoreboardDisplay matchId={matchId} />
+    return <ScoreboardDisplay matchId={matchId} readToken={params.get('key')} />
+  }
+  if (isOverlayMode) {
+    if (!matchId) return <p className="overlay-missing">{getMessages().overlay.missingMatch}</p>
+    return <StreamOverlay matchId={matchId} readToken={params.get('key')} theme={parseOverlayTheme(params.get('theme'))} />
+  }
+  if (isHandoverMode) return <HandoverPage matchId={matchId} keys={decodeMatchKeys(params.get('keys') ?? '')} />
+  if (isHistoryMode) return <MatchHistory />
+  if (isPlayersMode) return <PlayerRoster />
+  if (isStatsMode) return <StatsPage />
+  if (isTournamentMode) return <TournamentPage tournamentId={params.get('id') ?? ''} />
+  if (isVenueMode) {
+    return <VenueDisplay initialCourts={parseVenueCourts(params.get('matches') ?? '')} />
   }
   return <AppMain />
 }
@@ -0,0 +1,163 @@
+import { useState } from 'react'
+import {
+  DEFAULT_DISPLAY_SETTINGS,
+  DISPLAY_LAYOUTS,
+  DISPLAY_THEMES,
+  FONT_SCALES,
+  MAX_LOGO_LENGTH,
+  getSideColor,
+  type DisplaySettings,
+} from './display-settings'
+import { getMessages } from './i18n'
+import { readScaledImage } from './image-file'
+import { useMessages } from './use-locale'
+
+const LOGO_SIZE = 160
+
+/** Loggan sparas som PNG så att genomskinlighet behålls, och måste rymmas i synkad data. */
+async function readLogo(file: File): Promise<string> {
+  const logo = await readScaledImage(file, { size: LOGO_SIZE, square: false, type: 'image/png' })
+  if (logo.length > MAX_LOGO_LENGTH) throw new Error(getMessages().displaySettings.logoError)
+  return logo
+}
+
+interface DisplaySettingsModalProps {
+  settings: DisplaySettings
+  /** Namnen på sida 1 och 2, för färgvalen. */
+  sideNames: [string, string]
+  onChange: (settings: DisplaySettings) => void
+  onClose: () => void
+}
+
+/** Väljer tavlans utseende på enheten – ändringarna skickas till tavlorna för matchen som räknas här. */
+export default function DisplaySettingsModal({ settings, sideNames, onChange, onClose }: DisplaySettingsModalProps) {
+  const m = useMessages()
+  const [logoError, setLogoError] = useState(false)
+  /** Färgen medan den väljs – varje steg i färgväljaren ska inte skickas till tavlorna. */
+  const [colorDraft, setColorDraft] = useState<{ color1?: string; color2?: string }>({})
+
+  return (
+    <div
+      className="modal-overlay"
+      onClick={(e) => e.target === e.currentTarget && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="display-settings-title"
+    >
+      <div className="modal display-settings-modal">
+        <h2 id="display-settings-title">{m.displaySettings.title}</h2>
+        <p className="qr-modal-text">{m.displaySettings.text}</p>
+        <div className="format-fields">
+          <label className="format-field">
+            <span>{m.displaySettings.theme}</span>
+            <select
+              value={settings.theme}
+              onChange={(e) =>
+                onChange({ ...settings, theme: DISPLAY_THEMES.find((t) => t === e.target.value) ?? settings.theme })
+              }
+            >
+              {DISPLAY_THEMES.map((theme) => (
+                <option key={theme} value={theme}>
+                  {m.displaySettings.themes[theme]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="format-field">
+            <span>{m.displaySettings.layout}</span>
+            <select
+              value={settings.layout}
+              onChange={(e) =>
+                onChange({ ...settings, layout: DISPLAY_LAYOUTS.find((l) => l === e.target.value) ?? settings.layout })
+              }
+            >
+              {DISPLAY_LAYOUTS.map((layout) => (
+                <option key={layout} value={layout}>
+                  {m.displaySettings.layouts[layout]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="format-field">
+            <span>{m.displaySettings.fontScale}</span>
+            <select
+              value={settings.fontScale}
+              onChange={(e) => onChange({ ...settings, fontScale: Number(e.target.value) })}
+            >
+              {FONT_SCALES.map((scale) => (
+                <option key={scale} value={scale}>
+                  {Math.round(scale * 100)} %
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="format-field">
+            <span>{m.displaySettings.logo}</span>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                if (!file) return
+                setLogoError(false)
+                readLogo(file)
+                  .then((logo) => onChange({ ...settings, logo }))
+                  .catch(() => setLogoError(true))
+              }}
+            />
+          </label>
+          {([1, 2] as const).map((side) => {
+            const color = getSideColor(settings, side)
+            const key = side === 1 ? 'color1' : 'color2'
+            const draft = colorDraft[key]
+            return (
+              <label key={side} className="format-field">
+                <span>{m.displaySettings.color(sideNames[side - 1])}</span>
+                <span className="display-settings-color">
+                  <input
+                    type="color"
+                    value={draft ?? color ?? '#f59e0b'}
+                    onChange={(e) => setColorDraft((d) => ({ ...d, [key]: e.target.value }))}
+                    onBlur={() => {
+                      if (draft === undefined) return
+                      setColorDraft((d) => ({ ...d, [key]: undefined }))
+                      if (draft !== color) onChange({ ...settings, [key]: draft })
+                    }}
+                  />
+                  {color && (
+                    <button
+                      type="button"
+                      className="btn-swap"
+                      onClick={() => onChange({ ...settings, [key]: null })}
+                      aria-label={m.displaySettings.removeColor}
+                      title={m.displaySettings.removeColor}
+                    >
+                      ×
+                    </button>
+                  )}
+                </span>
+              </label>
+            )
+          })}
+        </div>
+        {logoError && <p className="scan-error">{m.displaySettings.logoError}</p>}
+        {settings.logo && (
+          <div className="display-settings-logo">
+            <img src={settings.logo} alt="" />
+            <button type="button" className="btn-swap" onClick={() => onChange({ ...settings, logo: null })}>
+              {m.displaySettings.removeLogo}
+            </button>
+          </div>
+        )}
+        <div className="modal-buttons">
+          <button type="button" className="btn-swap" onClick={() => onChange(DEFAULT_DISPLAY_SETTINGS)}>
+            {m.displaySettings.reset}
+          </button>
+          <button type="button" className="btn-close" onClick={onClose}>
+            {m.common.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
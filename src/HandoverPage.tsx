@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react'
+import { getBaseUrl } from './app-url'
+import { saveMatchKeys, type MatchKeys } from './match-keys'
+import { MATCH_ID_STORAGE_KEY, loadMatchState, saveMatchState } from './match-storage'
+import { isRemoteSyncEnabled, subscribeMatchState } from './sync'
+import { useMessages } from './use-locale'
+
+/**
+ * Tar emot skrivrätten till en match från en annan poängräknare (överlämnings-QR).
+ * Nycklarna sparas, senaste ställningen hämtas via synken och enheten fortsätter
+ * som poängräknare för matchen.
+ */
+export default function HandoverPage({ matchId, keys }: { matchId: string; keys: MatchKeys | null }) {
+  const m = useMessages()
+  const [error, setError] = useState<'invalidLink' | 'noSync' | null>(null)
+
+  useEffect(() => {
+    if (!matchId || !keys) {
+      setError('invalidLink')
+      return
+    }
+    saveMatchKeys(matchId, keys)
+    const takeOver = () => {
+      localStorage.setItem(MATCH_ID_STORAGE_KEY, matchId)
+      window.location.replace(getBaseUrl())
+    }
+    if (loadMatchState(matchId)) {
+      takeOver()
+      return
+    }
+    if (!isRemoteSyncEnabled()) {
+      setError('noSync')
+      return
+    }
+    return subscribeMatchState(matchId, keys.readToken, (state) => {
+      saveMatchState(matchId, state)
+      takeOver()
+    })
+  }, [matchId, keys])
+
+  return (
+    <div className="scoreboard-display scoreboard-connect">
+      <h1 className="scoreboard-title">{m.handover.pageTitle}</h1>
+      <p className="scoreboard-error-text">{error ? m.handover[error] : m.handover.fetching}</p>
+      {error && (
+        <a className="btn-swap" href={getBaseUrl()}>
+          {m.common.backToCounter}
+        </a>
+      )}
+    </div>
+  )
+}
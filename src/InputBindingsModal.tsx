@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import {
+  DEFAULT_INPUT_BINDINGS,
+  INPUT_ACTIONS,
+  addInputBinding,
+  describeBinding,
+  removeInputBinding,
+  type InputAction,
+  type InputBindings,
+} from './input-bindings'
+import { useInputCapture } from './use-input-bindings'
+import { useMessages } from './use-locale'
+
+interface InputBindingsModalProps {
+  bindings: InputBindings
+  onChange: (bindings: InputBindings) => void
+  onClose: () => void
+}
+
+/** Redigerar vilka tangenter, klickerknappar och handkontrollknappar som styr poängräknaren. */
+export default function InputBindingsModal({ bindings, onChange, onClose }: InputBindingsModalProps) {
+  const m = useMessages()
+  const [capturing, setCapturing] = useState<InputAction | null>(null)
+
+  useInputCapture(capturing !== null, (binding) => {
+    if (capturing && !(binding.kind === 'key' && binding.code === 'Escape')) {
+      onChange(addInputBinding(bindings, capturing, binding))
+    }
+    setCapturing(null)
+  })
+
+  return (
+    <div
+      className="modal-overlay"
+      onClick={(e) => e.target === e.currentTarget && !capturing && onClose()}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="input-bindings-title"
+    >
+      <div className="modal input-bindings-modal">
+        <h2 id="input-bindings-title">{m.inputBindings.title}</h2>
+        <p className="qr-modal-text">{m.inputBindings.text}</p>
+        <ul className="input-bindings">
+          {INPUT_ACTIONS.map((action) => (
+            <li key={action} className="input-binding-row">
+              <span className="input-binding-action">{m.inputBindings.actions[action]}</span>
+              <span className="input-binding-list">
+                {bindings[action].map((binding) => (
+                  <button
+                    key={describeBinding(binding)}
+                    type="button"
+                    className="input-binding-chip"
+                    onClick={() => onChange(removeInputBinding(bindings, action, binding))}
+                    aria-label={m.inputBindings.remove(describeBinding(binding))}
+                    title={m.inputBindings.removeTitle}
+                  >
+                    {describeBinding(binding)} ×
+                  </button>
+                ))}
+                <button
+                  type="button"
+                  className="btn-swap input-binding-add"
+                  onClick={() => setCapturing(action)}
+                  disabled={capturing !== null}
+                >
+                  {capturing === action ? m.inputBindings.capturing : m.inputBindings.add}
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+        <div className="modal-buttons">
+          <button type="button" className="btn-swap" onClick={() => onChange(DEFAULT_INPUT_BINDINGS)}>
+            {m.inputBindings.reset}
+          </button>
+          <button type="button" className="btn-close" onClick={onClose} disabled={capturing !== null}>
+            {m.common.close}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
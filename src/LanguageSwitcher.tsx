@@ -0,0 +1,22 @@
+import { LOCALES, LOCALE_NAMES, setLocale, type Locale } from './i18n'
+import { useLocale, useMessages } from './use-locale'
+
+/** Väljer språk för gränssnittet. Valet sparas på enheten. */
+export default function LanguageSwitcher() {
+  const locale = useLocale()
+  const m = useMessages()
+  return (
+    <select
+      className="name-input language-switcher"
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={m.language}
+    >
+      {LOCALES.map((l) => (
+        <option key={l} value={l} lang={l}>
+          {LOCALE_NAMES[l]}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -0,0 +1,235 @@
+import { useState, type ChangeEvent } from 'react'
+import { getBaseUrl } from './app-url'
+import { getDateLocale, getMessages } from './i18n'
+import { exportMatchesCsv, exportMatchesJson, mergeImportedMatches, parseMatchImport } from './match-export'
+import { describeMatchFormat } from './match-format'
+import { deleteMatchKeys, getReadToken } from './match-keys'
+import { getMatchDuration, getMatchWinner } from './match-rules'
+import { getTeamName } from './service'
+import {
+  MATCH_ID_STORAGE_KEY,
+  deleteMatchState,
+  getMatchStartTime,
+  listStoredMatches,
+  type StoredMatch,
+} from './match-storage'
+import { downloadFile, downloadMatch, formatDuration, getMatchSummary } from './match-summary'
+import { useMessages } from './use-locale'
+
+function getDisplayUrl(matchId: string): string {
+  const readToken = getReadToken(matchId)
+  return `${getBaseUrl()}?display=1&match=${encodeURIComponent(matchId)}${readToken ? `&key=${readToken}` : ''}`
+}
+
+function formatMatchDate(time: number | null): string {
+  if (!time) return getMessages().common.unknownDate
+  return new Date(time).toLocaleDateString(getDateLocale(), {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function downloadJson(matches: StoredMatch[]): void {
+  downloadFile(exportMatchesJson(matches), 'json', 'application/json')
+}
+
+function downloadCsv(matches: StoredMatch[]): void {
+  downloadFile(exportMatchesCsv(matches), 'csv', 'text/csv;charset=utf-8')
+}
+
+function readFileText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(new Error(getMessages().history.readError))
+    reader.readAsText(file)
+  })
+}
+
+/** Importerar exportfiler och rapporterar vad som lades till per fil. */
+async function importFiles(files: File[]): Promise<string[]> {
+  const m = getMessages().history
+  const report: string[] = []
+  for (const file of files) {
+    const parsed = parseMatchImport(await readFileText(file).catch(() => ''))
+    if (!parsed) {
+      report.push(m.notAnExport(file.name))
+      continue
+    }
+    const { added, skipped, failed } = mergeImportedMatches(parsed.matches)
+    const parts = [m.imported(added)]
+    if (skipped) parts.push(m.alreadyStored(skipped))
+    if (failed) parts.push(m.saveFailed(failed))
+    if (parsed.invalid) parts.push(m.invalid(parsed.invalid))
+    report.push(`${file.name}: ${parts.join(', ')}`)
+  }
+  return report
+}
+
+function matchesQuery({ state }: StoredMatch, query: string): boolean {
+  const q = query.trim().toLowerCase()
+  if (!q) return true
+  return [state.name1, state.name2, state.partner1, state.partner2].some((name) =>
+    name.toLowerCase().includes(q)
+  )
+}
+
+function MatchHistoryItem({ match, onDelete }: { match: StoredMatch; onDelete: () => void }) {
+  const m = useMessages()
+  const [expanded, setExpanded] = useState(false)
+  const [copied, setCopied] = useState(false)
+  const { id, state } = match
+  const winner = getMatchWinner(state)
+  const summary = getMatchSummary(state)
+  const matchDuration = state.matchEndedAt ? getMatchDuration(state, state.matchEndedAt) : null
+  const gameScores = state.games.map((g) => `${g.score1}–${g.score2}`).join(', ')
+
+  const handleResume = () => {
+    localStorage.setItem(MATCH_ID_STORAGE_KEY, id)
+    window.location.href = getBaseUrl()
+  }
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(summary).then(() => {
+      setCopied(true)
+      setTimeout(() => setCopied(false), 1500)
+    })
+  }
+
+  return (
+    <li className="history-item">
+      <button
+        type="button"
+        className="history-item-header"
+        onClick={() => setExpanded((e) => !e)}
+        aria-expanded={expanded}
+      >
+        <span className="history-item-date">{formatMatchDate(getMatchStartTime(state))}</span>
+        <span className="history-item-players">
+          {getTeamName(state, 1)} – {getTeamName(state, 2)}
+        </span>
+        <span className="history-item-result">
+          {m.history.sets(state.set1, state.set2)}
+          {gameScores && ` (${gameScores})`}
+          {winner ? ` · 🏆 ${getTeamName(state, winner)}` : ` · ${m.common.ongoing}`}
+        </span>
+        <span className="history-item-format">
+          {describeMatchFormat(state.format)}
+          {state.doubles ? ` · ${m.common.doubles}` : ''}
+          {matchDuration !== null && ` · ${formatDuration(matchDuration)}`}
+        </span>
+      </button>
+      {expanded && (
+        <div className="history-item-details">
+          <pre>{summary}</pre>
+          <div className="modal-buttons history-item-buttons">
+            <a className="btn-swap" href={getDisplayUrl(id)}>
+              {m.history.showOnDisplay}
+            </a>
+            <button type="button" className="btn-swap" onClick={handleResume}>
+              {m.history.resume}
+            </button>
+            <button type="button" className="btn-copy" onClick={handleCopy}>
+              {copied ? m.common.copied : m.common.copy}
+            </button>
+            <button type="button" className="btn-save" onClick={() => downloadMatch(summary)}>
+              {m.common.downloadFile}
+            </button>
+            <button type="button" className="btn-save" onClick={() => downloadJson([match])}>
+              JSON
+            </button>
+            <button type="button" className="btn-save" onClick={() => downloadCsv([match])}>
+              CSV
+            </button>
+            <button type="button" className="btn-close" onClick={onDelete}>
+              {m.common.delete}
+            </button>
+          </div>
+        </div>
+      )}
+    </li>
+  )
+}
+
+/** Matchhistorik – alla matcher sparade i denna webbläsare. */
+export default function MatchHistory() {
+  const m = useMessages()
+  const [matches, setMatches] = useState<StoredMatch[]>(() => listStoredMatches())
+  const [query, setQuery] = useState('')
+  const [importReport, setImportReport] = useState<string[]>([])
+  const visible = matches.filter((m) => matchesQuery(m, query))
+
+  const handleDelete = (match: StoredMatch) => {
+    const label = `${getTeamName(match.state, 1)} – ${getTeamName(match.state, 2)}`
+    if (!window.confirm(m.history.confirmDelete(label))) return
+    deleteMatchState(match.id)
+    deleteMatchKeys(match.id)
+    setMatches(listStoredMatches())
+  }
+
+  const handleImport = (e: ChangeEvent<HTMLInputElement>) => {
+    const input = e.target
+    const files = Array.from(input.files ?? [])
+    if (files.length === 0) return
+    importFiles(files).then((report) => {
+      setImportReport(report)
+      setMatches(listStoredMatches())
+      input.value = ''
+    })
+  }
+
+  return (
+    <div className="history">
+      <h1>{m.nav.history}</h1>
+      <a className="btn-swap history-back" href={getBaseUrl()}>
+        {m.common.backToCounter}
+      </a>
+      <input
+        type="search"
+        className="name-input history-search"
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        placeholder={m.history.search}
+        aria-label={m.history.search}
+      />
+      <div className="modal-buttons history-transfer">
+        <button
+          type="button"
+          className="btn-save"
+          onClick={() => downloadJson(matches)}
+          disabled={matches.length === 0}
+        >
+          {m.history.exportAllJson}
+        </button>
+        <button type="button" className="btn-save" onClick={() => downloadCsv(matches)} disabled={matches.length === 0}>
+          {m.history.exportAllCsv}
+        </button>
+        <label className="btn-swap history-import">
+          {m.history.importJson}
+          <input type="file" accept=".json,application/json" multiple onChange={handleImport} />
+        </label>
+      </div>
+      {importReport.length > 0 && (
+        <ul className="history-import-report" aria-live="polite">
+          {importReport.map((line, i) => (
+            <li key={i}>{line}</li>
+          ))}
+        </ul>
+      )}
+      {visible.length === 0 ? (
+        <p className="scoreboard-waiting">
+          {matches.length === 0 ? m.history.empty : m.history.noResults}
+        </p>
+      ) : (
+        <ul className="history-list">
+          {visible.map((match) => (
+            <MatchHistoryItem key={match.id} match={match} onDelete={() => handleDelete(match)} />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react'
+import { getBaseUrl } from './app-url'
+import { readScaledImage } from './image-file'
+import {
+  createPlayer,
+  loadPlayers,
+  removePlayer,
+  savePlayers,
+  upsertPlayer,
+  type Player,
+} from './player-roster'
+import { useMessages } from './use-locale'
+
+const PHOTO_SIZE = 96
+
+function PlayerRow({
+  player,
+  onChange,
+  onDelete,
+}: {
+  player: Player
+  onChange: (player: Player) => void
+  onDelete: () => void
+}) {
+  const m = useMessages()
+  const [photoError, setPhotoError] = useState(false)
+
+  return (
+    <li className="roster-item">
+      <div className="roster-photo">
+        {player.photo ? (
+          <img src={player.photo} alt="" className="roster-photo-image" />
+        ) : (
+          <span className="roster-photo-image" style={{ background: player.color ?? undefined }} aria-hidden />
+        )}
+      </div>
+      <div className="format-fields roster-fields">
+        <label className="format-field">
+          <span>{m.roster.name}</span>
+          <input
+            type="text"
+            value={player.name}
+            maxLength={20}
+            onChange={(e) => onChange({ ...player, name: e.target.value })}
+          />
+        </label>
+        <label className="format-field">
+          <span>{m.roster.club}</span>
+          <input
+            type="text"
+            value={player.club}
+            onChange={(e) => onChange({ ...player, club: e.target.value })}
+          />
+        </label>
+        <label className="format-field">
+          <span>{m.roster.handedness}</span>
+          <select
+            value={player.handedness ?? ''}
+            onChange={(e) =>
+              onChange({
+                ...player,
+                handedness: e.target.value === 'right' || e.target.value === 'left' ? e.target.value : null,
+              })
+            }
+          >
+            <option value="">–</option>
+            <option value="right">{m.roster.right}</option>
+            <option value="left">{m.roster.left}</option>
+          </select>
+        </label>
+        <label className="format-field">
+          <span>{m.roster.color}</span>
+          <input
+            type="color"
+            value={player.color ?? '#f59e0b'}
+            onChange={(e) => onChange({ ...player, color: e.target.value })}
+          />
+        </label>
+        <label className="format-field">
+          <span>{m.roster.photo}</span>
+          <input
+            type="file"
+            accept="image/*"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (!file) return
+              setPhotoError(false)
+              readScaledImage(file, { size: PHOTO_SIZE, square: true, type: 'image/jpeg', quality: 0.8 })
+                .then((photo) => onChange({ ...player, photo }))
+                .catch(() => setPhotoError(true))
+            }}
+          />
+        </label>
+      </div>
+      {photoError && <p className="scan-error">{m.roster.photoError}</p>}
+      <div className="modal-buttons roster-buttons">
+        {player.photo && (
+          <button type="button" className="btn-swap" onClick={() => onChange({ ...player, photo: null })}>
+            {m.roster.removePhoto}
+          </button>
+        )}
+        {player.color && (
+          <button type="button" className="btn-swap" onClick={() => onChange({ ...player, color: null })}>
+            {m.roster.removeColor}
+          </button>
+        )}
+        <button type="button" className="btn-close" onClick={onDelete}>
+          {m.roster.removePlayer}
+        </button>
+      </div>
+    </li>
+  )
+}
+
+/** Spelarregister – lägg till och redigera spelare som används i namnfälten. */
+export default function PlayerRoster() {
+  const m = useMessages()
+  const [players, setPlayers] = useState<Player[]>(loadPlayers)
+  const [newName, setNewName] = useState('')
+
+  const update = (next: Player[]) => {
+    setPlayers(next)
+    savePlayers(next)
+  }
+
+  const handleAdd = () => {
+    const name = newName.trim()
+    if (!name) return
+    update(upsertPlayer(players, createPlayer(name)))
+    setNewName('')
+  }
+
+  const handleDelete = (player: Player) => {
+    if (!window.confirm(m.roster.confirmDelete(player.name))) return
+    update(removePlayer(players, player.id))
+  }
+
+  return (
+    <div className="history">
+      <h1>{m.nav.players}</h1>
+      <a className="btn-swap history-back" href={getBaseUrl()}>
+        {m.common.backToCounter}
+      </a>
+      <form
+        className="roster-add"
+        onSubmit={(e) => {
+          e.preventDefault()
+          handleAdd()
+        }}
+      >
+        <input
+          type="text"
+          className="name-input"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder={m.roster.newPlayer}
+          maxLength={20}
+        />
+        <button type="submit" className="btn-save" disabled={!newName.trim()}>
+          {m.roster.add}
+        </button>
+      </form>
+      {players.length === 0 ? (
+        <p className="scoreboard-waiting">{m.roster.empty}</p>
+      ) : (
+        <ul className="history-list">
+          {players.map((player) => (
+            <PlayerRow
+              key={player.id}
+              player={player}
+              onChange={(p) => update(players.map((x) => (x.id === p.id ? p : x)))}
+              onDelete={() => handleDelete(player)}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react'
+import { getBaseUrl } from './app-url'
+import { listStoredMatches } from './match-storage'
+import {
+  computeHeadToHead,
+  computePlayerStats,
+  getAveragePointsPerGame,
+  getWinRate,
+} from './player-stats'
+import { getPlayer, loadPlayers } from './player-roster'
+import { useMessages } from './use-locale'
+
+/** Statistik – vinster, game och inbördes möten ur sparade matcher. */
+export default function StatsPage() {
+  const m = useMessages()
+  const matches = useMemo(() => listStoredMatches(), [])
+  const roster = useMemo(() => loadPlayers(), [])
+  const stats = useMemo(
+    () =>
+      computePlayerStats(matches).map((s) => ({
+        ...s,
+        // Visa namnet från spelarregistret om spelaren har bytt namn sedan matchen
+        name: getPlayer(roster, s.key)?.name ?? s.name,
+      })),
+    [matches, roster]
+  )
+  const [key1, setKey1] = useState('')
+  const [key2, setKey2] = useState('')
+  const headToHead = key1 && key2 ? computeHeadToHead(matches, key1, key2) : null
+  const nameOf = (key: string) => stats.find((s) => s.key === key)?.name ?? ''
+
+  return (
+    <div className="history stats">
+      <h1>{m.nav.stats}</h1>
+      <a className="btn-swap history-back" href={getBaseUrl()}>
+        {m.common.backToCounter}
+      </a>
+      {stats.length === 0 ? (
+        <p className="scoreboard-waiting">{m.stats.empty}</p>
+      ) : (
+        <>
+          <div className="stats-table-wrap">
+            <table className="stats-table">
+              <thead>
+                <tr>
+                  <th scope="col">{m.stats.player}</th>
+                  <th scope="col" title={m.stats.matchesTitle}>
+                    {m.stats.matches}
+                  </th>
+                  <th scope="col" title={m.stats.winLossTitle}>
+                    {m.stats.winLoss}
+                  </th>
+                  <th scope="col" title={m.stats.winRateTitle}>
+                    %
+                  </th>
+                  <th scope="col" title={m.stats.gamesTitle}>
+                    {m.stats.games}
+                  </th>
+                  <th scope="col" title={m.stats.pointsPerGameTitle}>
+                    {m.stats.pointsPerGame}
+                  </th>
+                  <th scope="col" title={m.stats.deuceTitle}>
+                    {m.stats.deuce}
+                  </th>
+                  <th scope="col" title={m.stats.streakTitle}>
+                    {m.stats.streak}
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.map((s) => (
+                  <tr key={s.key}>
+                    <th scope="row">{s.name}</th>
+                    <td>{s.matches}</td>
+                    <td>
+                      {s.wins}–{s.losses}
+                    </td>
+                    <td>{Math.round(getWinRate(s) * 100)}</td>
+                    <td>
+                      {s.gamesWon}–{s.gamesLost}
+                    </td>
+                    <td>{getAveragePointsPerGame(s).toFixed(1)}</td>
+                    <td>
+                      {s.deuceGamesWon}/{s.deuceGamesPlayed}
+                    </td>
+                    <td>{s.longestStreak}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h2 className="stats-heading">{m.stats.headToHead}</h2>
+          <div className="format-fields stats-h2h-select">
+            <label className="format-field">
+              <span>{m.stats.playerA}</span>
+              <select value={key1} onChange={(e) => setKey1(e.target.value)}>
+                <option value="">–</option>
+                {stats.map((s) => (
+                  <option key={s.key} value={s.key}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="format-field">
+              <span>{m.stats.playerB}</span>
+              <select value={key2} onChange={(e) => setKey2(e.target.value)}>
+                <option value="">–</option>
+                {stats.map((s) => (
+                  <option key={s.key} value={s.key}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          {headToHead && (
+            <p className="stats-h2h">
+              {headToHead.matches === 0
+                ? m.stats.noHeadToHead
+                : m.stats.headToHeadResult(
+                    nameOf(key1),
+                    headToHead.wins1,
+                    headToHead.wins2,
+                    nameOf(key2),
+                    headToHead.games1,
+                    headToHead.games2
+                  )}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
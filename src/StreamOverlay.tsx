@@ -0,0 +1,103 @@
+import { useEffect } from 'react'
+import type { ServerPlayer } from './App'
+import { getBaseUrl } from './app-url'
+import { getIntervalRemaining, getMatchWinner } from './match-rules'
+import { hasMatchData } from './match-storage'
+import { getTeamName } from './service'
+import { useMessages } from './use-locale'
+import { useMatchState } from './use-match-state'
+import { useNow } from './use-now'
+
+export type OverlayTheme = 'classic' | 'dark' | 'light' | 'club'
+
+export const OVERLAY_THEMES: OverlayTheme[] = ['classic', 'dark', 'light', 'club']
+
+export function parseOverlayTheme(value: string | null): OverlayTheme {
+  return OVERLAY_THEMES.find((theme) => theme === value) ?? 'classic'
+}
+
+/** Länk för en webbläsarkälla i OBS – bär läsnyckeln precis som visarlänken. */
+export function getOverlayUrl(matchId: string, readToken: string | null, theme: OverlayTheme): string {
+  const params = new URLSearchParams({ overlay: '1', match: matchId })
+  if (readToken) params.set('key', readToken)
+  params.set('theme', theme)
+  return `${getBaseUrl()}?${params}`
+}
+
+/**
+ * Ställningen som grafik i nedre tredjedelen för livesändning – tänkt som
+ * webbläsarkälla i OBS. Sidan är genomskinlig utanför grafiken och följer
+ * matchen på samma sätt som poängvisaren. Poäng och game som ändras blinkar
+ * till: elementen får ny key och spelar då om animationen.
+ */
+export default function StreamOverlay({
+  matchId,
+  readToken,
+  theme,
+}: {
+  matchId: string
+  readToken: string | null
+  theme: OverlayTheme
+}) {
+  const m = useMessages()
+  const state = useMatchState(matchId, readToken)
+  const now = useNow(state.interval !== null)
+
+  useEffect(() => {
+    document.documentElement.classList.add('stream-overlay-page')
+    return () => document.documentElement.classList.remove('stream-overlay-page')
+  }, [])
+
+  if (!hasMatchData(state)) return null
+
+  const matchWinner = getMatchWinner(state)
+  const tag = matchWinner
+    ? m.display.matchWinner
+    : state.interval && getIntervalRemaining(state.interval, now) > 0
+      ? state.interval.kind === 'break'
+        ? m.interval.break
+        : m.interval.interval
+      : null
+
+  // Servemarkering, namn, ett fält per avslutat game, vunna game och poäng i pågående game
+  const columns = ['auto', 'minmax(0, 1fr)', ...state.games.map(() => 'auto'), 'auto', ...(matchWinner ? [] : ['auto'])]
+
+  const renderRow = (side: ServerPlayer) => {
+    const serving = !matchWinner && state.currentServer === side
+    const games = side === 1 ? state.set1 : state.set2
+    const points = side === 1 ? state.score1 : state.score2
+    return (
+      <div className={`overlay-row ${matchWinner === side ? 'winner' : ''}`}>
+        <span className={`overlay-serve ${serving ? 'active' : ''}`} aria-label={serving ? m.display.serving : undefined} />
+        <span className="overlay-name">{getTeamName(state, side)}</span>
+        {state.games.map((game, i) => {
+          const won = (game.score1 > game.score2 ? 1 : 2) === side
+          return (
+            <span key={i} className={`overlay-game ${won ? 'won' : ''}`}>
+              {side === 1 ? game.score1 : game.score2}
+            </span>
+          )
+        })}
+        <span key={`games-${games}`} className="overlay-games overlay-bump">
+          {games}
+        </span>
+        {!matchWinner && (
+          <span key={`points-${state.games.length}-${points}`} className="overlay-points overlay-bump">
+            {points}
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className={`stream-overlay overlay-theme-${theme}`} aria-live="polite">
+      {tag && <span className="overlay-tag">{tag}</span>}
+      {/* Raderna delar kolumner så att game och poäng står under varandra */}
+      <div className="overlay-board" style={{ gridTemplateColumns: columns.join(' ') }}>
+        {renderRow(1)}
+        {renderRow(2)}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,376 @@
+import { useState } from 'react'
+import { getBaseUrl } from './app-url'
+import { getDateLocale } from './i18n'
+import { MATCH_FORMAT_PRESETS, describeMatchFormat } from './match-format'
+import {
+  EMPTY_STATE,
+  MATCH_ID_STORAGE_KEY,
+  generateMatchId,
+  loadMatchState,
+  saveMatchState,
+} from './match-storage'
+import { findPlayerByName, loadPlayers } from './player-roster'
+import {
+  assignCourt,
+  autoAssignCourts,
+  computeStandings,
+  createParticipant,
+  createTournament,
+  deleteTournament,
+  getGroupCount,
+  getParticipant,
+  getRoundCount,
+  getTournamentWinner,
+  isMatchReady,
+  loadTournaments,
+  saveTournament,
+  setCounterMatch,
+  syncResults,
+  type Tournament,
+  type TournamentMatch,
+  type TournamentType,
+} from './tournament'
+import { useMessages } from './use-locale'
+
+function getTournamentUrl(id?: string): string {
+  return `${getBaseUrl()}?tournament=1${id ? `&id=${encodeURIComponent(id)}` : ''}`
+}
+
+/** Antal ur ett sifferfält – minst 1, tomt eller ogiltigt ger 1. */
+function parseCount(text: string): number {
+  return Math.max(1, Number(text) || 1)
+}
+
+function CreateTournamentForm({ onCreate }: { onCreate: (tournament: Tournament) => void }) {
+  const m = useMessages()
+  const [name, setName] = useState('')
+  const [type, setType] = useState<TournamentType>('roundrobin')
+  /** Sifferfälten som de skrivs – begränsas först när fältet lämnas eller turneringen skapas. */
+  const [groups, setGroups] = useState('1')
+  const [courts, setCourts] = useState('2')
+  const [presetId, setPresetId] = useState<string>(MATCH_FORMAT_PRESETS[0].id)
+  const [participantText, setParticipantText] = useState('')
+  const names = participantText
+    .split('\n')
+    .map((n) => n.trim())
+    .filter(Boolean)
+
+  const handleCreate = () => {
+    const roster = loadPlayers()
+    const participants = names.map((n) => {
+      const player = findPlayerByName(roster, n)
+      return createParticipant(player?.name ?? n, player?.id ?? null)
+    })
+    const format = MATCH_FORMAT_PRESETS.find((p) => p.id === presetId)?.format
+    onCreate(
+      createTournament(name, type, participants, { format, courts: parseCount(courts), groups: parseCount(groups) })
+    )
+  }
+
+  return (
+    <form
+      className="roster-item tournament-create"
+      onSubmit={(e) => {
+        e.preventDefault()
+        handleCreate()
+      }}
+    >
+      <h2 className="stats-heading">{m.tournament.newTournament}</h2>
+      <div className="format-fields roster-fields">
+        <label className="format-field">
+          <span>{m.tournament.name}</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={m.tournament.namePlaceholder}
+          />
+        </label>
+        <label className="format-field">
+          <span>{m.tournament.type}</span>
+          <select value={type} onChange={(e) => setType(e.target.value === 'knockout' ? 'knockout' : 'roundrobin')}>
+            <option value="roundrobin">{m.tournament.roundRobin}</option>
+            <option value="knockout">{m.tournament.knockout}</option>
+          </select>
+        </label>
+        {type === 'roundrobin' && (
+          <label className="format-field">
+            <span>{m.tournament.groups}</span>
+            <input
+              type="number"
+              min={1}
+              value={groups}
+              onChange={(e) => setGroups(e.target.value)}
+              onBlur={() => setGroups(String(parseCount(groups)))}
+            />
+          </label>
+        )}
+        <label className="format-field">
+          <span>{m.tournament.courts}</span>
+          <input
+            type="number"
+            min={1}
+            value={courts}
+            onChange={(e) => setCourts(e.target.value)}
+            onBlur={() => setCourts(String(parseCount(courts)))}
+          />
+        </label>
+        <label className="format-field">
+          <span>{m.tournament.format}</span>
+          <select value={presetId} onChange={(e) => setPresetId(e.target.value)}>
+            {MATCH_FORMAT_PRESETS.map((p) => (
+              <option key={p.id} value={p.id}>
+                {m.format.presets[p.id]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="format-field tournament-participants">
+        <span>{m.tournament.participantsHint}</span>
+        <textarea
+          rows={6}
+          value={participantText}
+          onChange={(e) => setParticipantText(e.target.value)}
+        />
+      </label>
+      <button type="submit" className="btn-save" disabled={names.length < 2}>
+        {m.tournament.create(names.length)}
+      </button>
+    </form>
+  )
+}
+
+function TournamentMatchRow({
+  tournament,
+  match,
+  onCourtChange,
+  onStart,
+}: {
+  tournament: Tournament
+  match: TournamentMatch
+  onCourtChange: (court: number | null) => void
+  onStart: () => void
+}) {
+  const m = useMessages()
+  const name1 = getParticipant(tournament, match.side1)?.name ?? (match.round === 0 ? m.tournament.walkover : '–')
+  const name2 = getParticipant(tournament, match.side2)?.name ?? (match.round === 0 ? m.tournament.walkover : '–')
+  const courtOptions = Array.from({ length: tournament.courts }, (_, i) => i + 1)
+  return (
+    <li className={`tournament-match ${match.winner ? 'done' : ''}`}>
+      <span className={`tournament-side ${match.winner && match.winner === match.side1 ? 'winner' : ''}`}>{name1}</span>
+      <span className="tournament-result">
+        {match.result
+          ? `${match.result.set1}–${match.result.set2} (${match.result.games.map((g) => `${g.score1}–${g.score2}`).join(', ')})`
+          : m.tournament.vs}
+      </span>
+      <span className={`tournament-side ${match.winner && match.winner === match.side2 ? 'winner' : ''}`}>{name2}</span>
+      {isMatchReady(match) && (
+        <span className="tournament-match-actions">
+          <select
+            value={match.court ?? ''}
+            onChange={(e) => onCourtChange(e.target.value ? Number(e.target.value) : null)}
+            aria-label={m.tournament.court}
+          >
+            <option value="">{m.tournament.noCourt}</option>
+            {courtOptions.map((c) => (
+              <option key={c} value={c}>
+                {m.common.court(c)}
+              </option>
+            ))}
+          </select>
+          <button type="button" className="btn-swap" onClick={onStart}>
+            {match.counterMatchId ? m.tournament.continueMatch : m.tournament.startMatch}
+          </button>
+        </span>
+      )}
+    </li>
+  )
+}
+
+function TournamentView({ initial }: { initial: Tournament }) {
+  const m = useMessages()
+  const [tournament, setTournament] = useState<Tournament>(() => {
+    // Hämta resultat från matcher som spelats klart i poängräknaren sedan sist
+    const synced = syncResults(initial, loadMatchState)
+    if (synced !== initial) saveTournament(synced)
+    return synced
+  })
+
+  const update = (next: Tournament) => {
+    setTournament(next)
+    saveTournament(next)
+  }
+
+  const handleStart = (match: TournamentMatch) => {
+    let counterMatchId = match.counterMatchId
+    if (!counterMatchId) {
+      const p1 = getParticipant(tournament, match.side1)
+      const p2 = getParticipant(tournament, match.side2)
+      counterMatchId = generateMatchId()
+      saveMatchState(counterMatchId, {
+        ...EMPTY_STATE,
+        name1: p1?.name ?? '',
+        name2: p2?.name ?? '',
+        player1Id: p1?.playerId ?? null,
+        player2Id: p2?.playerId ?? null,
+        format: tournament.format,
+        createdAt: Date.now(),
+      })
+      saveTournament(setCounterMatch(tournament, match.id, counterMatchId))
+    }
+    localStorage.setItem(MATCH_ID_STORAGE_KEY, counterMatchId)
+    window.location.href = getBaseUrl()
+  }
+
+  const renderMatches = (matches: TournamentMatch[]) => (
+    <ul className="tournament-matches">
+      {matches.map((m) => (
+        <TournamentMatchRow
+          key={m.id}
+          tournament={tournament}
+          match={m}
+          onCourtChange={(court) => update(assignCourt(tournament, m.id, court))}
+          onStart={() => handleStart(m)}
+        />
+      ))}
+    </ul>
+  )
+
+  const rounds = Array.from({ length: getRoundCount(tournament) }, (_, i) => i)
+  const winner = getParticipant(tournament, getTournamentWinner(tournament))
+
+  return (
+    <>
+      <h2 className="stats-heading">{tournament.name}</h2>
+      <p className="match-format-info">
+        {tournament.type === 'knockout' ? m.tournament.knockout : m.tournament.roundRobin} ·{' '}
+        {describeMatchFormat(tournament.format)} · {m.tournament.courtCount(tournament.courts)}
+      </p>
+      {winner && <p className="match-winner">{m.tournament.won(winner.name)}</p>}
+      <button type="button" className="btn-swap" onClick={() => update(autoAssignCourts(tournament))}>
+        {m.tournament.assignCourts}
+      </button>
+
+      {tournament.type === 'roundrobin' &&
+        Array.from({ length: getGroupCount(tournament) }, (_, group) => (
+          <section key={group} className="tournament-group">
+            <h3 className="tournament-round-title">{m.tournament.group(String.fromCharCode(65 + group))}</h3>
+            <div className="stats-table-wrap">
+              <table className="stats-table">
+                <thead>
+                  <tr>
+                    <th scope="col">{m.tournament.participant}</th>
+                    <th scope="col" title={m.tournament.playedTitle}>
+                      {m.tournament.played}
+                    </th>
+                    <th scope="col" title={m.tournament.winLossTitle}>
+                      {m.tournament.winLoss}
+                    </th>
+                    <th scope="col" title={m.tournament.gamesTitle}>
+                      {m.tournament.games}
+                    </th>
+                    <th scope="col" title={m.tournament.pointsTitle}>
+                      {m.tournament.points}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {computeStandings(tournament, group).map((row) => (
+                    <tr key={row.participantId}>
+                      <th scope="row">{getParticipant(tournament, row.participantId)?.name}</th>
+                      <td>{row.played}</td>
+                      <td>
+                        {row.wins}–{row.losses}
+                      </td>
+                      <td>{row.gamesFor - row.gamesAgainst}</td>
+                      <td>{row.pointsFor - row.pointsAgainst}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {rounds.map((round) => {
+              const matches = tournament.matches.filter((m) => m.group === group && m.round === round)
+              if (matches.length === 0) return null
+              return (
+                <div key={round}>
+                  <h4 className="tournament-round-title">{m.tournament.round(round + 1)}</h4>
+                  {renderMatches(matches)}
+                </div>
+              )
+            })}
+          </section>
+        ))}
+
+      {tournament.type === 'knockout' &&
+        rounds.map((round) => (
+          <section key={round} className="tournament-group">
+            <h3 className="tournament-round-title">
+              {round === rounds.length - 1
+                ? m.tournament.final
+                : round === rounds.length - 2
+                  ? m.tournament.semifinal
+                  : m.tournament.round(round + 1)}
+            </h3>
+            {renderMatches(tournament.matches.filter((m) => m.round === round))}
+          </section>
+        ))}
+    </>
+  )
+}
+
+/** Turneringsläge – lotta gruppspel eller utslagsturnering och starta matcher i poängräknaren. */
+export default function TournamentPage({ tournamentId }: { tournamentId: string }) {
+  const m = useMessages()
+  const [tournaments, setTournaments] = useState<Tournament[]>(loadTournaments)
+  const current = tournaments.find((t) => t.id === tournamentId)
+
+  const handleDelete = (t: Tournament) => {
+    if (!window.confirm(m.tournament.confirmDelete(t.name))) return
+    deleteTournament(t.id)
+    setTournaments(loadTournaments())
+  }
+
+  return (
+    <div className="history tournament">
+      <h1>{m.nav.tournament}</h1>
+      <a className="btn-swap history-back" href={current ? getTournamentUrl() : getBaseUrl()}>
+        {current ? m.tournament.allTournaments : m.common.backToCounter}
+      </a>
+      {current ? (
+        <TournamentView initial={current} />
+      ) : (
+        <>
+          {tournaments.length > 0 && (
+            <ul className="history-list">
+              {tournaments.map((t) => (
+                <li key={t.id} className="history-item">
+                  <a className="history-item-header" href={getTournamentUrl(t.id)}>
+                    <span className="history-item-players">{t.name}</span>
+                    <span className="history-item-format">
+                      {t.type === 'knockout' ? m.tournament.knockout : m.tournament.roundRobin} ·{' '}
+                      {m.tournament.participantCount(t.participants.length)} ·{' '}
+                      {new Date(t.createdAt).toLocaleDateString(getDateLocale())}
+                    </span>
+                  </a>
+                  <div className="history-item-details">
+                    <button type="button" className="btn-close tournament-delete" onClick={() => handleDelete(t)}>
+                      {m.common.delete}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <CreateTournamentForm
+            onCreate={(t) => {
+              saveTournament(t)
+              window.location.href = getTournamentUrl(t.id)
+            }}
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { useRegisterSW } from 'virtual:pwa-register/react'
+import { useMessages } from './use-locale'
+
+/**
+ * Visas när en ny version har laddats ner av service workern. Uppdateringen
+ * laddar om sidan, så den görs bara när användaren väljer det – ställningen
+ * finns kvar i localStorage.
+ */
+export default function UpdatePrompt() {
+  const m = useMessages()
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker,
+  } = useRegisterSW()
+
+  if (!needRefresh && !offlineReady) return null
+
+  const close = () => {
+    setNeedRefresh(false)
+    setOfflineReady(false)
+  }
+
+  return (
+    <div className="update-prompt" role="status">
+      <span>{needRefresh ? m.update.newVersion : m.update.offlineReady}</span>
+      {needRefresh && (
+        <button type="button" className="btn-save" onClick={() => void updateServiceWorker(true)}>
+          {m.update.update}
+        </button>
+      )}
+      <button type="button" className="btn-close" onClick={close}>
+        {needRefresh ? m.update.later : m.update.ok}
+      </button>
+    </div>
+  )
+}
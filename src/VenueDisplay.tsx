@@ -0,0 +1,246 @@
+import { useState } from 'react'
+import type { ServerPlayer } from './App'
+import { getDateLocale } from './i18n'
+import { getReadToken } from './match-keys'
+import { getMatchWinner } from './match-rules'
+import { getMatchStartTime, hasMatchData, listStoredMatches } from './match-storage'
+import { getTeamName } from './service'
+import { useMessages } from './use-locale'
+import { useMatchState } from './use-match-state'
+
+/** Matchen som visas på en bana – tomt match-id för en ledig bana. */
+export interface VenueCourt {
+  matchId: string
+  /** Matchens läsnyckel från visarlänken – krävs för uppdateringar från andra enheter. */
+  readToken: string | null
+}
+
+/** Vilken match som visas på vilken bana, en post per ruta. */
+const VENUE_STORAGE_KEY = 'badminton-venue-courts'
+
+const EMPTY_COURT: VenueCourt = { matchId: '', readToken: null }
+
+function parseCourt(data: unknown): VenueCourt {
+  // Äldre sparade banor är bara match-id
+  if (typeof data === 'string') return { matchId: data, readToken: getReadToken(data) }
+  if (!data || typeof data !== 'object') return EMPTY_COURT
+  const d = data as Record<string, unknown>
+  return {
+    matchId: typeof d.matchId === 'string' ? d.matchId : '',
+    readToken: typeof d.readToken === 'string' ? d.readToken : null,
+  }
+}
+
+function loadCourts(): VenueCourt[] {
+  try {
+    const raw = localStorage.getItem(VENUE_STORAGE_KEY)
+    if (!raw) return []
+    const data = JSON.parse(raw)
+    return Array.isArray(data) ? data.map(parseCourt) : []
+  } catch {
+    return []
+  }
+}
+
+function saveCourts(courts: VenueCourt[]): void {
+  localStorage.setItem(VENUE_STORAGE_KEY, JSON.stringify(courts))
+}
+
+/** Tolkar en inklistrad visarlänke (med läsnyckel) eller ett rent match-id. */
+function parseCourtInput(text: string): VenueCourt {
+  const value = text.trim()
+  try {
+    const url = new URL(value)
+    const matchId = url.searchParams.get('match') ?? ''
+    return { matchId, readToken: url.searchParams.get('key') ?? getReadToken(matchId) }
+  } catch {
+    return { matchId: value, readToken: getReadToken(value) }
+  }
+}
+
+function CourtTile({ court, matchId, readToken }: { court: number } & VenueCourt) {
+  const m = useMessages()
+  const state = useMatchState(matchId, readToken)
+  const matchWinner = getMatchWinner(state)
+  const hasNoData = !hasMatchData(state)
+
+  // Matchläget kommer färdigt från poängräknaren
+  const { gamePoint } = state.situation
+  const badgeSide = gamePoint[0] ?? null
+  const matchPoint = state.situation.matchPoint.length > 0
+
+  const renderRow = (side: ServerPlayer) => (
+    <div
+      className={`venue-row ${matchWinner === side ? 'winner' : ''} ${
+        gamePoint.includes(side) ? 'game-point' : ''
+      }`}
+    >
+      <span className="venue-serve" aria-label={!matchWinner && state.currentServer === side ? m.venue.serving : undefined}>
+        {matchWinner === side ? '🏆' : !matchWinner && state.currentServer === side ? '🏸' : ''}
+      </span>
+      <span className="venue-name">{getTeamName(state, side)}</span>
+      <span className="venue-games">{side === 1 ? state.set1 : state.set2}</span>
+      <span className="venue-score">{side === 1 ? state.score1 : state.score2}</span>
+    </div>
+  )
+
+  return (
+    <section className="venue-court">
+      <header className="venue-court-header">
+        <span className="venue-court-name">{m.common.court(court)}</span>
+        {matchWinner ? (
+          <span className="venue-badge done">{m.venue.done}</span>
+        ) : (
+          badgeSide && (
+            <span className={`venue-badge ${matchPoint ? 'match-point' : ''}`}>
+              {matchPoint ? m.venue.matchPoint : m.venue.gamePoint}
+            </span>
+          )
+        )}
+      </header>
+      {hasNoData ? (
+        <p className="venue-empty">{m.common.waitingForData}</p>
+      ) : (
+        <>
+          {renderRow(1)}
+          {renderRow(2)}
+          {state.games.length > 0 && (
+            <p className="venue-games-list">{state.games.map((g) => `${g.score1}–${g.score2}`).join(', ')}</p>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
+
+function CourtAssignment({
+  court,
+  matchId,
+  onChange,
+}: {
+  court: number
+  matchId: string
+  onChange: (court: VenueCourt) => void
+}) {
+  const m = useMessages()
+  const stored = listStoredMatches()
+  const isStored = stored.some((m) => m.id === matchId)
+  return (
+    <div className="format-fields venue-assign">
+      <label className="format-field">
+        <span>{m.common.court(court)}</span>
+        <select
+          value={isStored ? matchId : ''}
+          onChange={(e) => onChange({ matchId: e.target.value, readToken: getReadToken(e.target.value) })}
+        >
+          <option value="">–</option>
+          {stored.map(({ id, state }) => {
+            const start = getMatchStartTime(state)
+            return (
+              <option key={id} value={id}>
+                {getTeamName(state, 1)} – {getTeamName(state, 2)}
+                {start ? ` · ${new Date(start).toLocaleString(getDateLocale(), { dateStyle: 'short', timeStyle: 'short' })}` : ''}
+              </option>
+            )
+          })}
+        </select>
+      </label>
+      <label className="format-field">
+        <span>{m.venue.linkOrId}</span>
+        <input
+          key={matchId}
+          type="text"
+          defaultValue={matchId}
+          onBlur={(e) => {
+            if (e.target.value.trim() !== matchId) onChange(parseCourtInput(e.target.value))
+          }}
+          placeholder={m.venue.fromOtherDevice}
+        />
+      </label>
+    </div>
+  )
+}
+
+/** Banor ur ?matches=id1:nyckel1,id2:nyckel2 – nyckeln kan utelämnas för matcher på denna enhet. */
+export function parseVenueCourts(param: string): VenueCourt[] {
+  return param
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [matchId, readToken] = entry.split(':')
+      return { matchId, readToken: readToken || getReadToken(matchId) }
+    })
+}
+
+/**
+ * Hallvy – alla banor på en skärm. Varje ruta följer en match live på samma
+ * sätt som poängvisaren. Banorna kan förväljas med ?venue=1&matches=….
+ */
+export default function VenueDisplay({ initialCourts }: { initialCourts: VenueCourt[] }) {
+  const [courts, setCourts] = useState<VenueCourt[]>(() => {
+    const saved = initialCourts.length > 0 ? initialCourts : loadCourts()
+    return saved.length > 0 ? saved : [EMPTY_COURT]
+  })
+  const [editing, setEditing] = useState(false)
+  const m = useMessages()
+
+  const update = (next: VenueCourt[]) => {
+    setCourts(next)
+    saveCourts(next)
+  }
+
+  return (
+    <div className="venue">
+      <div className="venue-grid">
+        {courts.map(({ matchId, readToken }, i) =>
+          matchId ? (
+            <CourtTile key={`${i}-${matchId}`} court={i + 1} matchId={matchId} readToken={readToken} />
+          ) : (
+            <section key={i} className="venue-court">
+              <header className="venue-court-header">
+                <span className="venue-court-name">{m.common.court(i + 1)}</span>
+              </header>
+              <p className="venue-empty">{m.venue.noMatch}</p>
+            </section>
+          )
+        )}
+      </div>
+      {editing && (
+        <div className="venue-editor">
+          {courts.map(({ matchId }, i) => (
+            <CourtAssignment
+              key={i}
+              court={i + 1}
+              matchId={matchId}
+              onChange={(court) => update(courts.map((c, j) => (j === i ? court : c)))}
+            />
+          ))}
+          <div className="modal-buttons">
+            <button type="button" className="btn-swap" onClick={() => update([...courts, EMPTY_COURT])}>
+              {m.venue.addCourt}
+            </button>
+            <button
+              type="button"
+              className="btn-close"
+              disabled={courts.length <= 1}
+              onClick={() => update(courts.slice(0, -1))}
+            >
+              {m.venue.removeLastCourt}
+            </button>
+          </div>
+        </div>
+      )}
+      <button
+        type="button"
+        className="tavla-mirror venue-edit"
+        onClick={() => setEditing((e) => !e)}
+        aria-pressed={editing}
+        aria-label={m.venue.chooseMatches}
+        title={m.venue.chooseMatches}
+      >
+        ⚙
+      </button>
+    </div>
+  )
+}
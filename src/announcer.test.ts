@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import type { ScoreboardState, ServerPlayer } from './App'
+import { getAnnouncement, type AnnouncerLanguage } from './announcer'
+import { recordRally, undoLastAction } from './match-log'
+import { EMPTY_STATE } from './match-storage'
+
+const START: ScoreboardState = { ...EMPTY_STATE, name1: 'Anna', name2: 'Bo' }
+
+function play(state: ScoreboardState, winners: ServerPlayer[]): ScoreboardState {
+  return winners.reduce(recordRally, state)
+}
+
+/** Utropet för nästa boll efter att winners spelats från start. */
+function announce(winners: ServerPlayer[], next: ServerPlayer, language: AnnouncerLanguage = 'sv') {
+  const before = play(START, winners)
+  return getAnnouncement(before, recordRally(before, next), language)
+}
+
+describe('getAnnouncement', () => {
+  it('ropar ut servande sidas poäng först', () => {
+    expect(announce([], 1)).toBe('1–noll')
+    expect(announce([1, 1], 2)).toBe('1–2, serveskifte')
+    expect(announce([1, 1], 2, 'en')).toBe('1–2, service over')
+  })
+
+  it('ropar ut paus vid pauspoängen', () => {
+    expect(announce(Array(10).fill(1), 1)).toBe('11–noll, paus')
+  })
+
+  it('ropar ut gameboll och matchboll', () => {
+    expect(announce(Array(19).fill(1), 1)).toBe('20–noll, gameboll')
+    expect(announce([...Array(21).fill(1), ...Array(19).fill(1)], 1, 'en')).toBe('20–love, match point')
+  })
+
+  it('ropar ut vunnet game och match med vinnarens poäng först', () => {
+    expect(announce([2, ...Array(20).fill(1)], 1)).toBe('Game, Anna vinner 21–1')
+    expect(announce([...Array(21).fill(2), ...Array(20).fill(2)], 2)).toBe('Game och match, Bo vinner 21–noll, 21–noll')
+  })
+
+  it('ropar inte ut ångrade bollar', () => {
+    const state = play(START, [1, 1])
+    expect(getAnnouncement(state, undoLastAction(state)!.state, 'sv')).toBeNull()
+  })
+})
@@ -0,0 +1,132 @@
+/**
+ * Utrop av ställning och server som en domare, t.ex. "14–12, serveskifte",
+ * "20–18, gameboll" och "Game, Anna vinner 21–18". Texten tas fram av en ren
+ * funktion ur ställningen före och efter en boll; uppläsningen görs med
+ * Web Speech API. Inställningarna sparas per enhet i localStorage.
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import { getMatchWinner, isGamePoint, isMatchPoint } from './match-rules'
+import { getTeamName, opponentOf } from './service'
+
+export type AnnouncerLanguage = 'sv' | 'en'
+
+export interface AnnouncerSettings {
+  enabled: boolean
+  language: AnnouncerLanguage
+  /** 0–1. */
+  volume: number
+}
+
+const SETTINGS_STORAGE_KEY = 'badminton-announcer'
+
+export const DEFAULT_ANNOUNCER_SETTINGS: AnnouncerSettings = { enabled: false, language: 'sv', volume: 1 }
+
+const PHRASES = {
+  sv: {
+    love: 'noll',
+    serviceOver: 'serveskifte',
+    gamePoint: 'gameboll',
+    matchPoint: 'matchboll',
+    interval: 'paus',
+    changeEnds: 'byte av sida',
+    game: 'Game',
+    gameAndMatch: 'Game och match',
+    wins: 'vinner',
+  },
+  en: {
+    love: 'love',
+    serviceOver: 'service over',
+    gamePoint: 'game point',
+    matchPoint: 'match point',
+    interval: 'interval',
+    changeEnds: 'change ends',
+    game: 'Game',
+    gameAndMatch: 'Game and match',
+    wins: 'wins',
+  },
+}
+
+export const SPEECH_LANGUAGES: Record<AnnouncerLanguage, string> = { sv: 'sv-SE', en: 'en-GB' }
+
+function formatScore(a: number, b: number, language: AnnouncerLanguage): string {
+  const say = (n: number) => (n === 0 ? PHRASES[language].love : String(n))
+  return `${say(a)}–${say(b)}`
+}
+
+function sideScore(score1: number, score2: number, first: ServerPlayer): [number, number] {
+  return first === 1 ? [score1, score2] : [score2, score1]
+}
+
+/**
+ * Utropet efter en ändring från prev till next, eller null om inget ska ropas
+ * ut. Bara nyregistrerade bollar ropas ut – inte ångra, namnbyten eller ett
+ * helt nytt state (t.ex. när en visare ansluter mitt i matchen).
+ */
+export function getAnnouncement(
+  prev: ScoreboardState,
+  next: ScoreboardState,
+  language: AnnouncerLanguage
+): string | null {
+  const added = next.events.length - prev.events.length
+  if (added < 1 || added > 2 || !next.events.slice(prev.events.length).some((e) => e.type === 'point')) return null
+  const phrases = PHRASES[language]
+
+  const gamesWon = next.set1 + next.set2 - (prev.set1 + prev.set2)
+  if (gamesWon > 0) {
+    const winner: ServerPlayer = next.set1 > prev.set1 ? 1 : 2
+    const name = getTeamName(next, winner)
+    const matchWinner = getMatchWinner(next)
+    if (matchWinner) {
+      const scores = next.games.map((g) => formatScore(...sideScore(g.score1, g.score2, matchWinner), language))
+      return `${phrases.gameAndMatch}, ${name} ${phrases.wins} ${scores.join(', ')}`
+    }
+    const game = next.games[next.games.length - 1]
+    const score = formatScore(...sideScore(game.score1, game.score2, winner), language)
+    return `${phrases.game}, ${name} ${phrases.wins} ${score}`
+  }
+
+  // Servande sidas poäng först
+  const parts = [formatScore(...sideScore(next.score1, next.score2, next.currentServer), language)]
+  if (next.currentServer !== prev.currentServer) parts.push(phrases.serviceOver)
+  const sides: ServerPlayer[] = [next.currentServer, opponentOf(next.currentServer)]
+  if (sides.some((side) => isMatchPoint(next, side))) parts.push(phrases.matchPoint)
+  else if (sides.some((side) => isGamePoint(next, side))) parts.push(phrases.gamePoint)
+  if (next.interval?.kind === 'interval' && prev.interval?.startedAt !== next.interval.startedAt) {
+    parts.push(phrases.interval)
+    if (next.interval.changeEnds) parts.push(phrases.changeEnds)
+  }
+  return parts.join(', ')
+}
+
+export function isSpeechSupported(): boolean {
+  return typeof window !== 'undefined' && 'speechSynthesis' in window
+}
+
+/** Läser upp texten. Ett pågående utrop avbryts så att ställningen aldrig släpar efter. */
+export function speak(text: string, settings: AnnouncerSettings): void {
+  if (!isSpeechSupported() || !settings.enabled || settings.volume === 0) return
+  const utterance = new SpeechSynthesisUtterance(text.replace(/–/g, ' '))
+  utterance.lang = SPEECH_LANGUAGES[settings.language]
+  utterance.volume = settings.volume
+  window.speechSynthesis.cancel()
+  window.speechSynthesis.speak(utterance)
+}
+
+export function loadAnnouncerSettings(): AnnouncerSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_STORAGE_KEY)
+    const d = raw ? (JSON.parse(raw) as Record<string, unknown>) : {}
+    const volume = Number(d.volume)
+    return {
+      enabled: d.enabled === true,
+      language: d.language === 'en' ? 'en' : 'sv',
+      volume: Number.isFinite(volume) ? Math.min(1, Math.max(0, volume)) : DEFAULT_ANNOUNCER_SETTINGS.volume,
+    }
+  } catch {
+    return DEFAULT_ANNOUNCER_SETTINGS
+  }
+}
+
+export function saveAnnouncerSettings(settings: AnnouncerSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+}
@@ -0,0 +1,7 @@
+/**
+ * Appens adress utan query. Sidorna (historik, visare, turnering …) väljs med
+ * parametrar på samma adress, t.ex. ?history=1.
+ */
+export function getBaseUrl(): string {
+  return `${window.location.origin}${window.location.pathname || '/'}`
+}
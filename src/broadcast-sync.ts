@@ -0,0 +1,39 @@
+/**
+ * Synk mellan flikar i samma webbläsare via BroadcastChannel. Kräver ingen
+ * server eller konfiguration, men når inte andra enheter.
+ */
+import { parseSignedState, type SyncProvider } from './sync-provider'
+
+const CHANNEL_NAME = 'badminton-matches'
+
+interface BroadcastMessage {
+  matchId: string
+  update: unknown
+}
+
+export function createBroadcastSync(): SyncProvider | null {
+  if (typeof BroadcastChannel === 'undefined') return null
+  const channel = new BroadcastChannel(CHANNEL_NAME)
+  return {
+    id: 'broadcast',
+    remote: false,
+    async write(matchId, update) {
+      const message: BroadcastMessage = { matchId, update }
+      channel.postMessage(message)
+      return 'saved'
+    },
+    subscribe(matchId, onUpdate) {
+      const onMessage = (e: MessageEvent<BroadcastMessage>) => {
+        if (e.data?.matchId !== matchId) return
+        const update = parseSignedState(e.data.update)
+        if (update) onUpdate(update)
+      }
+      channel.addEventListener('message', onMessage)
+      return () => channel.removeEventListener('message', onMessage)
+    },
+    watchConnection(onChange) {
+      onChange(true)
+      return () => {}
+    },
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Tavlans utseende – färg per sida, tema, klubblogga, textstorlek och layout.
+ * Väljs på poängräknaren och sparas en gång per enhet. Tavlorna får det i en
+ * egen synkkanal per match (se sync.ts), skild från ställningen – loggan
+ * skickas alltså bara när utseendet ändras, inte med varje boll.
+ */
+
+export type DisplayTheme = 'standard' | 'light' | 'dark' | 'contrast'
+
+/** Auto följer skärmens bredd; liggande och stående låser sidornas placering. */
+export type DisplayLayout = 'auto' | 'landscape' | 'portrait'
+
+export interface DisplaySettings {
+  /** Färg för sida 1 och 2 som #rrggbb, eller null för ingen färgmarkering. */
+  color1: string | null
+  color2: string | null
+  theme: DisplayTheme
+  /** Klubblogga som data-URL – nedskalad så att den får plats i synkad data. */
+  logo: string | null
+  /** Faktor för textstorleken på tavlan (1 = standard). */
+  fontScale: number
+  layout: DisplayLayout
+}
+
+export const DISPLAY_SETTINGS_STORAGE_KEY = 'badminton-display-settings'
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  color1: null,
+  color2: null,
+  theme: 'standard',
+  logo: null,
+  fontScale: 1,
+  layout: 'auto',
+}
+
+export const DISPLAY_THEMES: DisplayTheme[] = ['standard', 'light', 'dark', 'contrast']
+
+export const DISPLAY_LAYOUTS: DisplayLayout[] = ['auto', 'landscape', 'portrait']
+
+export const FONT_SCALES = [0.8, 1, 1.25, 1.5]
+
+/** Största tillåtna logga (tecken i data-URL:en). */
+export const MAX_LOGO_LENGTH = 100_000
+
+export const isDisplayColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v)
+
+export const isDisplayLogo = (v: unknown): v is string =>
+  typeof v === 'string' && v.startsWith('data:image/') && v.length <= MAX_LOGO_LENGTH
+
+export const isFontScale = (v: unknown): v is number =>
+  typeof v === 'number' && Number.isFinite(v) && v >= 0.5 && v <= 2
+
+export function decodeDisplaySettings(data: unknown): DisplaySettings | null {
+  if (typeof data !== 'object' || data === null) return null
+  const { color1, color2, theme, logo, fontScale, layout } = data as Record<string, unknown>
+  if ((color1 !== null && !isDisplayColor(color1)) || (color2 !== null && !isDisplayColor(color2))) return null
+  if (logo !== null && !isDisplayLogo(logo)) return null
+  if (!isFontScale(fontScale)) return null
+  const validTheme = DISPLAY_THEMES.find((t) => t === theme)
+  const validLayout = DISPLAY_LAYOUTS.find((l) => l === layout)
+  if (!validTheme || !validLayout) return null
+  return { color1, color2, theme: validTheme, logo, fontScale, layout: validLayout }
+}
+
+export function parseDisplaySettingsJson(text: string | null): DisplaySettings | null {
+  if (!text) return null
+  try {
+    return decodeDisplaySettings(JSON.parse(text))
+  } catch {
+    return null
+  }
+}
+
+export function loadDisplaySettings(): DisplaySettings {
+  try {
+    return parseDisplaySettingsJson(localStorage.getItem(DISPLAY_SETTINGS_STORAGE_KEY)) ?? DEFAULT_DISPLAY_SETTINGS
+  } catch {
+    return DEFAULT_DISPLAY_SETTINGS
+  }
+}
+
+export function saveDisplaySettings(settings: DisplaySettings): void {
+  try {
+    localStorage.setItem(DISPLAY_SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+  } catch {
+    // Full lagring – tavlorna får ändå utseendet via synken så länge appen är öppen
+  }
+}
+
+export function getSideColor(settings: DisplaySettings, side: 1 | 2): string | null {
+  return side === 1 ? settings.color1 : settings.color2
+}
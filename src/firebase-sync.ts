@@ -1,73 +1,68 @@
 /**
- * Valfri molnsynk mellan enheter (t.ex. webb + iOS).
+ * Molnsynk mellan enheter via Firebase Realtime Database (t.ex. webb + iOS).
  * Sätt VITE_FIREBASE_API_KEY och VITE_FIREBASE_DATABASE_URL i .env för att aktivera.
+ *
+ * Varje match lagras som matches/<id> = { state, writeToken }. Visare läser bara
+ * state; med reglerna i database.rules.json kan bara den som känner till
+ * skrivtoken ändra matchen, och äldre versioner avvisas.
  */
 import { initializeApp } from 'firebase/app'
-import { getDatabase, ref, set, onValue, type Database } from 'firebase/database'
-import type { ScoreboardState } from './App'
+import { getDatabase, get, ref, set, onValue, type Database } from 'firebase/database'
+import { isStaleState } from './match-version'
+import { parseSignedState, type SyncProvider } from './sync-provider'
 
 const apiKey = import.meta.env.VITE_FIREBASE_API_KEY as string | undefined
 const databaseURL = import.meta.env.VITE_FIREBASE_DATABASE_URL as string | undefined
 
-let db: Database | null = null
+const MATCHES_PATH = 'matches'
 
-if (apiKey && databaseURL) {
+function connect(): Database | null {
+  if (!apiKey || !databaseURL) return null
   try {
-    const app = initializeApp({ apiKey, databaseURL })
-    db = getDatabase(app)
+    return getDatabase(initializeApp({ apiKey, databaseURL }))
   } catch {
-    db = null
+    return null
   }
 }
 
-export function isFirebaseEnabled(): boolean {
-  return db !== null
+function isPermissionDenied(err: unknown): boolean {
+  const { code, message } = (err ?? {}) as { code?: string; message?: string }
+  return `${code ?? ''} ${message ?? ''}`.toUpperCase().includes('PERMISSION_DENIED')
 }
 
-const MATCHES_PATH = 'matches'
-
-export function writeMatchState(matchId: string, state: ScoreboardState): void {
-  if (!db) return
-  const matchRef = ref(db, `${MATCHES_PATH}/${matchId}`)
-  set(matchRef, state).catch(() => {
-    // Tyst fel – användaren kan vara offline eller sakna behörighet
-  })
-}
-
-function parseState(data: unknown): ScoreboardState | null {
-  if (!data || typeof data !== 'object') return null
-  const d = data as Record<string, unknown>
+/** Skapar Firebase-backenden, eller null om den inte är konfigurerad eller inte kan startas. */
+export function createFirebaseSync(): SyncProvider | null {
+  const db = connect()
+  if (!db) return null
   return {
-    name1: typeof d.name1 === 'string' ? d.name1 : '',
-    name2: typeof d.name2 === 'string' ? d.name2 : '',
-    score1: Number(d.score1) || 0,
-    score2: Number(d.score2) || 0,
-    set1: Number(d.set1) || 0,
-    set2: Number(d.set2) || 0,
-    serverAtStart: d.serverAtStart === 2 ? 2 : 1,
-    currentServer: d.currentServer === 2 ? 2 : 1,
-  }
-}
-
-/**
- * Prenumerera på matchstate från molnet. Anropas när visaren öppnas på en annan enhet (t.ex. iOS).
- * Returnerar en avprenumereringsfunktion.
- */
-export function subscribeMatchState(
-  matchId: string,
-  onUpdate: (state: ScoreboardState) => void
-): () => void {
-  if (!db) return () => {}
-  const matchRef = ref(db, `${MATCHES_PATH}/${matchId}`)
-  const unsubscribe = onValue(
-    matchRef,
-    (snapshot) => {
-      const state = parseState(snapshot.val())
-      if (state) onUpdate(state)
+    id: 'firebase',
+    remote: true,
+    async write(matchId, update, writeToken) {
+      // Reglerna avvisar äldre versioner atomiskt; kontrollen här sparar en onödig skrivning
+      const current = parseSignedState((await get(ref(db, `${MATCHES_PATH}/${matchId}/state`))).val())
+      if (current && isStaleState(update, current)) return 'stale'
+      try {
+        await set(ref(db, `${MATCHES_PATH}/${matchId}`), { state: update, writeToken })
+        return 'saved'
+      } catch (err) {
+        if (isPermissionDenied(err)) return 'forbidden'
+        throw err
+      }
     },
-    () => {
-      // Vid fel (t.ex. ingen behörighet) – inget att göra
-    }
-  )
-  return unsubscribe
+    subscribe(matchId, onUpdate) {
+      return onValue(
+        ref(db, `${MATCHES_PATH}/${matchId}/state`),
+        (snapshot) => {
+          const update = parseSignedState(snapshot.val())
+          if (update) onUpdate(update)
+        },
+        () => {
+          // Vid fel (t.ex. ingen behörighet) – inget att göra
+        }
+      )
+    },
+    watchConnection(onChange) {
+      return onValue(ref(db, '.info/connected'), (snapshot) => onChange(snapshot.val() === true))
+    },
+  }
 }
@@ -0,0 +1,93 @@
+/**
+ * Språk för gränssnittet. Texterna ligger i en typad meddelandekatalog per
+ * språk; locale-sv.ts är förlagan och övriga språk måste ha samma nycklar.
+ * Valt språk sparas per enhet i localStorage – utan sparat val används
+ * webbläsarens språk om det finns bland LOCALES.
+ *
+ * Nytt språk: skapa locale-<kod>.ts med typen Messages och lägg till koden i
+ * Locale, LOCALES, LOCALE_NAMES, DATE_LOCALES och MESSAGES.
+ */
+import { en } from './locale-en'
+import { sv, type Messages } from './locale-sv'
+
+export type { Messages }
+
+export type Locale = 'sv' | 'en'
+
+export const LOCALES: Locale[] = ['sv', 'en']
+
+/** Språkets eget namn – visas i språkväljaren. */
+export const LOCALE_NAMES: Record<Locale, string> = { sv: 'Svenska', en: 'English' }
+
+/** Språktagg för datum och klockslag. */
+const DATE_LOCALES: Record<Locale, string> = { sv: 'sv-SE', en: 'en-GB' }
+
+const MESSAGES: Record<Locale, Messages> = { sv, en }
+
+const DEFAULT_LOCALE: Locale = 'sv'
+
+const LOCALE_STORAGE_KEY = 'badminton-locale'
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale)
+}
+
+function detectLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_STORAGE_KEY)
+    if (isLocale(saved)) return saved
+  } catch {
+    // ignore
+  }
+  if (typeof navigator === 'undefined') return DEFAULT_LOCALE
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language]
+  for (const tag of languages) {
+    const code = tag?.toLowerCase().split('-')[0]
+    if (isLocale(code)) return code
+  }
+  return DEFAULT_LOCALE
+}
+
+let currentLocale = detectLocale()
+const localeListeners = new Set<(locale: Locale) => void>()
+
+/** Sätter <html lang> – skärmläsare och talsyntes läser sidan på rätt språk. */
+function applyLocale(locale: Locale): void {
+  if (typeof document === 'undefined') return
+  document.documentElement.lang = locale
+  document.title = MESSAGES[locale].appName
+}
+
+applyLocale(currentLocale)
+
+export function getLocale(): Locale {
+  return currentLocale
+}
+
+export function getMessages(locale: Locale = currentLocale): Messages {
+  return MESSAGES[locale]
+}
+
+/** Språktagg för toLocaleString och liknande, t.ex. "sv-SE". */
+export function getDateLocale(): string {
+  return DATE_LOCALES[currentLocale]
+}
+
+export function setLocale(locale: Locale): void {
+  if (locale === currentLocale) return
+  currentLocale = locale
+  try {
+    localStorage.setItem(LOCALE_STORAGE_KEY, locale)
+  } catch {
+    // ignore
+  }
+  applyLocale(locale)
+  localeListeners.forEach((onChange) => onChange(locale))
+}
+
+export function subscribeLocale(onChange: (locale: Locale) => void): () => void {
+  localeListeners.add(onChange)
+  return () => {
+    localeListeners.delete(onChange)
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Bilder som användaren laddar upp (spelarfoton, klubblogga) skalas ner på en
+ * canvas till en liten data-URL innan de sparas och synkas.
+ */
+import { getMessages } from './i18n'
+
+export interface ImageScaling {
+  /** Största bredd och höjd i pixlar. */
+  size: number
+  /** Skär ut en kvadrat ur mitten (foton); annars behålls proportionerna. */
+  square: boolean
+  /** PNG behåller genomskinlighet, JPEG blir mindre. */
+  type: 'image/png' | 'image/jpeg'
+  quality?: number
+}
+
+/** Läser en bildfil och skalar ner den enligt scaling. Avvisas om filen inte är en läsbar bild. */
+export function readScaledImage(file: File, scaling: ImageScaling): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const fail = () => reject(new Error(getMessages().common.imageReadError))
+    const reader = new FileReader()
+    reader.onerror = fail
+    reader.onload = () => {
+      const img = new Image()
+      img.onerror = fail
+      img.onload = () => {
+        const side = Math.min(img.width, img.height)
+        const sw = scaling.square ? side : img.width
+        const sh = scaling.square ? side : img.height
+        const scale = Math.min(1, scaling.size / Math.max(sw, sh))
+        const canvas = document.createElement('canvas')
+        // Foton fyller alltid hela rutan, även om originalet är mindre
+        canvas.width = scaling.square ? scaling.size : Math.max(1, Math.round(sw * scale))
+        canvas.height = scaling.square ? scaling.size : Math.max(1, Math.round(sh * scale))
+        const ctx = canvas.getContext('2d')
+        if (!ctx) return fail()
+        ctx.drawImage(img, (img.width - sw) / 2, (img.height - sh) / 2, sw, sh, 0, 0, canvas.width, canvas.height)
+        resolve(canvas.toDataURL(scaling.type, scaling.quality))
+      }
+      img.src = reader.result as string
+    }
+    reader.readAsDataURL(file)
+  })
+}
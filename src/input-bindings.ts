@@ -0,0 +1,107 @@
+/**
+ * Knappbindningar för poängräkning utan att trycka på skärmen: tangentbord,
+ * presentationsklickers (som skickar tangenttryck, oftast PageUp/PageDown) och
+ * handkontroller via Gamepad API. Bindningarna sparas per enhet i localStorage.
+ */
+import { getMessages } from './i18n'
+
+export type InputAction = 'pointLeft' | 'pointRight' | 'undo' | 'redo' | 'changeEnds'
+
+export type InputBinding =
+  /** KeyboardEvent.code – oberoende av tangentbordslayout. */
+  | { kind: 'key'; code: string }
+  /** Knappindex i standardlayouten för Gamepad API. */
+  | { kind: 'gamepad'; button: number }
+
+export type InputBindings = Record<InputAction, InputBinding[]>
+
+export const INPUT_ACTIONS: InputAction[] = ['pointLeft', 'pointRight', 'undo', 'redo', 'changeEnds']
+
+const BINDINGS_STORAGE_KEY = 'badminton-input-bindings'
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  pointLeft: [
+    { kind: 'key', code: 'ArrowLeft' },
+    { kind: 'key', code: 'PageUp' },
+    { kind: 'gamepad', button: 4 },
+  ],
+  pointRight: [
+    { kind: 'key', code: 'ArrowRight' },
+    { kind: 'key', code: 'PageDown' },
+    { kind: 'gamepad', button: 5 },
+  ],
+  undo: [
+    { kind: 'key', code: 'Backspace' },
+    { kind: 'gamepad', button: 1 },
+  ],
+  redo: [{ kind: 'gamepad', button: 3 }],
+  changeEnds: [{ kind: 'gamepad', button: 8 }],
+}
+
+export function isSameBinding(a: InputBinding, b: InputBinding): boolean {
+  return a.kind === 'key' ? b.kind === 'key' && a.code === b.code : b.kind === 'gamepad' && a.button === b.button
+}
+
+export function findInputAction(bindings: InputBindings, binding: InputBinding): InputAction | null {
+  return INPUT_ACTIONS.find((action) => bindings[action].some((b) => isSameBinding(b, binding))) ?? null
+}
+
+/** Lägger till bindningen för action. En knapp styr bara en åtgärd, så den tas bort från övriga. */
+export function addInputBinding(bindings: InputBindings, action: InputAction, binding: InputBinding): InputBindings {
+  const next = { ...bindings }
+  for (const a of INPUT_ACTIONS) next[a] = bindings[a].filter((b) => !isSameBinding(b, binding))
+  next[action] = [...next[action], binding]
+  return next
+}
+
+export function removeInputBinding(bindings: InputBindings, action: InputAction, binding: InputBinding): InputBindings {
+  return { ...bindings, [action]: bindings[action].filter((b) => !isSameBinding(b, binding)) }
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Enter: 'Enter',
+}
+
+/** Läsbar beskrivning, t.ex. "←", "PageDown" eller "Handkontroll 5". */
+export function describeBinding(binding: InputBinding): string {
+  const m = getMessages().inputBindings
+  if (binding.kind === 'gamepad') return m.gamepadButton(binding.button)
+  if (binding.code === 'Space') return m.space
+  if (binding.code === 'Backspace') return m.backspace
+  return KEY_NAMES[binding.code] ?? binding.code.replace(/^Key/, '').replace(/^Digit/, '')
+}
+
+function parseBinding(data: unknown): InputBinding | null {
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (d.kind === 'key' && typeof d.code === 'string' && d.code) return { kind: 'key', code: d.code }
+  if (d.kind === 'gamepad' && Number.isInteger(d.button) && (d.button as number) >= 0) {
+    return { kind: 'gamepad', button: d.button as number }
+  }
+  return null
+}
+
+export function loadInputBindings(): InputBindings {
+  try {
+    const raw = localStorage.getItem(BINDINGS_STORAGE_KEY)
+    if (!raw) return DEFAULT_INPUT_BINDINGS
+    const data = JSON.parse(raw) as Record<string, unknown>
+    const bindings = { ...DEFAULT_INPUT_BINDINGS }
+    for (const action of INPUT_ACTIONS) {
+      const list = data[action]
+      if (!Array.isArray(list)) continue
+      bindings[action] = list.map(parseBinding).filter((b): b is InputBinding => b !== null)
+    }
+    return bindings
+  } catch {
+    return DEFAULT_INPUT_BINDINGS
+  }
+}
+
+export function saveInputBindings(bindings: InputBindings): void {
+  localStorage.setItem(BINDINGS_STORAGE_KEY, JSON.stringify(bindings))
+}
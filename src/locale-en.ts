@@ -0,0 +1,421 @@
+/** English texts. */
+import type { Messages } from './locale-sv'
+
+export const en: Messages = {
+  appName: 'Badminton Score Counter',
+  language: 'Language',
+
+  common: {
+    backToCounter: '← Back to the counter',
+    close: 'Close',
+    cancel: 'Cancel',
+    delete: 'Delete',
+    copy: 'Copy',
+    copied: 'Copied!',
+    downloadFile: 'Download file',
+    downloaded: 'Downloaded!',
+    loadingQr: 'Loading QR code…',
+    waitingForData: 'Waiting for match data…',
+    court: (court) => `Court ${court}`,
+    set: 'Games',
+    singles: 'singles',
+    doubles: 'doubles',
+    ongoing: 'in progress',
+    imageReadError: 'Could not read the image',
+    unknownDate: 'Unknown date',
+  },
+
+  nav: {
+    history: '📋 Match history',
+    players: '👥 Players',
+    stats: '📊 Statistics',
+    tournament: '🏆 Tournament',
+    venue: '🖥 Venue view',
+  },
+
+  service: {
+    player: (side) => `Player ${side}`,
+    partner: (side) => `Partner ${side}`,
+    rightCourt: 'right court',
+    leftCourt: 'left court',
+  },
+
+  format: {
+    oneGame: '1 game',
+    bestOf: (games) => `Best of ${games}`,
+    points: (points) => `${points} points`,
+    rally: 'rally scoring',
+    sideout: 'side-out',
+    presets: {
+      bwf: 'Standard (BWF)',
+      'practice-15': 'Practice, 15 points',
+      'trial-5x11': 'Best of five, 11 points',
+      'sideout-15': 'Classic side-out, 15 points',
+    },
+  },
+
+  counter: {
+    partner: 'Partner',
+    switchCourts: 'Switch service courts',
+    switchCourtsTitle: 'The players switch service courts',
+    switchCourtsButton: '⇅ Switch court',
+    addPoint: 'Add point',
+    finishedGames: 'Finished games',
+    changeEnds: 'Change ends',
+    changeEndsButton: '⇄ Change ends',
+    undo: 'Undo',
+    undoButton: '↶ Undo',
+    redo: 'Redo',
+    redoButton: '↷ Redo',
+    serverAtStart: 'Serving first',
+    serviceFrom: (court, receiver) => `from the ${court} · receiving: ${receiver}`,
+    startedServing: (name) => `Served first: ${name}`,
+    wonMatch: (name, set1, set2) => `🏆 ${name} won the match ${set1}–${set2}`,
+    showDisplayQr: '📺 Show QR for scoreboard',
+    handOver: '🔑 Hand over to another device',
+    openAsDisplay: '📷 Scan QR – open as scoreboard',
+    saveMatch: 'Save match',
+    inputBindings: '🎮 Keys and gamepad',
+    displaySettings: '🎨 Scoreboard look',
+    storageFull: 'The match could not be saved on this device – storage is full.',
+    saveInfo: 'Download a file with the match result or copy it to the clipboard',
+    newMatch: 'Start new match',
+  },
+
+  interval: {
+    interval: 'Interval',
+    break: 'Interval between games',
+    changeEnds: 'change ends',
+    endChangePrompt: '⇄ Change ends – the players switch sides. The counter and the scoreboard have been turned.',
+    ok: 'OK',
+  },
+
+  situation: {
+    gamePoint: 'Game point',
+    matchPoint: 'Match point',
+    deuce: 'Deuce',
+    decidingPoint: (score) => `${score}-all · deciding point`,
+    intervalDue: 'Interval at the next point',
+  },
+
+  announcer: {
+    on: '🔊 Announcer on',
+    off: '🔇 Announcer off',
+    language: 'Announcer language',
+    volume: 'Volume',
+    turnOn: 'Turn announcer on',
+    turnOff: 'Turn announcer off',
+  },
+
+  saveModal: {
+    title: 'Match result',
+    printSheet: '🖨 Score sheet',
+    downloadPdf: 'Score sheet (PDF)',
+  },
+
+  newMatch: {
+    title: 'Start new match',
+    singles: 'Singles',
+    doubles: 'Doubles',
+    pointsToWin: 'Points per game',
+    maxPoints: 'Cap',
+    gamesToWin: 'Games to win',
+    scoring: 'Scoring',
+    rally: 'Rally scoring',
+    sideout: 'Side-out',
+    start: 'Start',
+  },
+
+  handover: {
+    title: 'Hand over scoring',
+    text:
+      'Scan the QR code with the device taking over. The code grants full write access to the match – do not show it to the audience. Tap Done once the other device has taken over.',
+    qrAlt: 'QR code for handover',
+    done: 'Done – release write access',
+    pageTitle: '🔑 Take over scoring',
+    invalidLink: 'The handover link is invalid. Scan the QR code again.',
+    noSync: 'No sync between devices is configured, so the match cannot be fetched to this device.',
+    fetching: 'Fetching the match from the other device…',
+  },
+
+  displayQr: {
+    title: 'Scoreboard – connect a device to this match',
+    text: 'Scan the QR code with the device that should show the score. That device is then connected to this match.',
+    qrAlt: 'QR code for scoreboard',
+    link: 'Scoreboard link',
+    copyLink: 'Copy link',
+    overlayTitle: 'Live streaming overlay',
+    overlayText:
+      'Add the link as a browser source in OBS (1920×1080). The background is transparent and the score is shown in the lower left corner.',
+    overlayTheme: 'Overlay theme',
+    overlayLink: 'Overlay link',
+    copyOverlayLink: 'Copy overlay link',
+  },
+
+  overlay: {
+    themes: {
+      classic: 'Classic',
+      dark: 'Dark',
+      light: 'Light',
+      club: 'Club colours',
+    },
+    missingMatch: 'The overlay has no match – copy the link from the QR dialog in the counter.',
+  },
+
+  sync: {
+    updates: (count) => (count === 1 ? '1 update' : `${count} updates`),
+    none: 'No sync',
+    writeDenied: 'Read-only – another device owns the match',
+    tabs: 'Syncing between tabs',
+    offline: 'Offline',
+    offlineQueued: (updates) => `Offline · ${updates} waiting`,
+    sending: (updates) => `Sending ${updates}…`,
+    connected: 'Connected',
+    updatedAt: (time) => `updated ${time}`,
+  },
+
+  display: {
+    waitingForCounter: 'Waiting for match data from the counter…',
+    waitingLocal:
+      'Waiting for match data. Open the link on the same device as the counter, or configure Firebase or the WebSocket relay to sync between devices.',
+    sets: (sets) => `Games: ${sets}`,
+    matchWinner: 'Match winner',
+    serving: 'Serving',
+    serviceFrom: (court) => `from the ${court} · receiving`,
+    mirrorOn: 'Mirror the scoreboard (placed on the other side of the court)',
+    mirrorOff: 'Turn mirroring off',
+  },
+
+  scan: {
+    title: '🏸 Scoreboard',
+    text: 'Connect this device to a match by scanning the QR code shown in the counter.',
+    start: '📷 Scan QR to connect to a match',
+    cameraError: 'Could not start the camera',
+  },
+
+  summary: {
+    heading: 'BADMINTON MATCH',
+    date: 'Date',
+    format: 'Format',
+    sets: 'Games',
+    game: (game) => `Game ${game}`,
+    points: 'Points',
+    matchTime: 'Match time',
+    ongoing: '(in progress)',
+    serverAtStart: 'Served first',
+    matchWinner: 'Match winner (games)',
+    lastSet: 'Last game (points)',
+    draw: 'Draw.',
+  },
+
+  sheet: {
+    title: 'Badminton score sheet',
+    documentTitle: (team1, team2) => `Score sheet – ${team1} vs ${team2}`,
+    print: 'Print / save as PDF',
+    competition: 'Event:',
+    court: 'Court:',
+    matchNumber: 'Match number:',
+    date: (date) => `Date: ${date}`,
+    times: (start, end) => `Start: ${start} · End: ${end}`,
+    matchTime: (duration) => `Match time ${duration}`,
+    result: 'Result',
+    side: 'Side',
+    game: (game) => `Game ${game}`,
+    games: 'Games',
+    winner: (name) => `Winner: ${name}`,
+    notFinished: 'The match is not finished.',
+    playTime: (duration) => `Duration ${duration}`,
+    ongoing: 'In progress',
+    intervalAt: (score) => `Interval at ${score}`,
+    breakBefore: (duration) => `Interval before next game: ${duration}`,
+    legend: 'S/R = serving/receiving first. The number is the score of the side that won the rally; / = won the serve without a point.',
+    intervalDoubleLine: 'Double line = interval.',
+    intervalThickLine: 'Thick line = interval.',
+    noRallyLog: 'The match was saved without a complete rally-by-rally log.',
+    signatures: ['Umpire', 'Team manager / player side 1', 'Team manager / player side 2'],
+    fileName: 'score_sheet',
+  },
+
+  history: {
+    search: 'Search players',
+    exportAllJson: '⬇ Export all (JSON)',
+    exportAllCsv: '⬇ Export all (CSV)',
+    csvHeader: [
+      'match_id',
+      'date',
+      'format',
+      'doubles',
+      'side_1',
+      'side_2',
+      'game',
+      'points_1',
+      'points_2',
+      'duration_s',
+      'game_winner',
+      'match_winner',
+    ],
+    csvYes: 'yes',
+    csvNo: 'no',
+    importJson: '⬆ Import JSON',
+    readError: 'Could not read the file',
+    notAnExport: (file) => `${file}: not a match export`,
+    imported: (count) => `${count} imported`,
+    alreadyStored: (count) => `${count} already stored`,
+    invalid: (count) => `${count} invalid`,
+    saveFailed: (count) => `${count} could not be saved (storage is full)`,
+    empty: 'No saved matches yet.',
+    noResults: 'No matches match the search.',
+    sets: (set1, set2) => `Games ${set1}–${set2}`,
+    showOnDisplay: '📺 Show on scoreboard',
+    resume: '▶ Resume',
+    confirmDelete: (match) => `Delete the match ${match}?`,
+  },
+
+  roster: {
+    name: 'Name',
+    club: 'Club',
+    handedness: 'Playing hand',
+    right: 'Right',
+    left: 'Left',
+    color: 'Colour',
+    photo: 'Photo',
+    photoError: 'Could not read the image',
+    removePhoto: 'Remove photo',
+    removeColor: 'Remove colour',
+    removePlayer: 'Delete player',
+    confirmDelete: (name) => `Delete ${name} from the players?`,
+    newPlayer: 'New player',
+    add: 'Add',
+    empty: 'No players yet. Names entered in the counter are added automatically.',
+  },
+
+  stats: {
+    empty: 'No statistics yet – finish a match first.',
+    player: 'Player',
+    matches: 'M',
+    matchesTitle: 'Matches',
+    winLoss: 'W–L',
+    winLossTitle: 'Wins–losses',
+    winRateTitle: 'Share of matches won',
+    games: 'Games',
+    gamesTitle: 'Games won–lost',
+    pointsPerGame: 'Points/game',
+    pointsPerGameTitle: 'Average points per game',
+    deuce: 'Deuce',
+    deuceTitle: 'Deuce games won',
+    streak: 'Streak',
+    streakTitle: 'Longest run of points',
+    headToHead: 'Head to head',
+    playerA: 'Player A',
+    playerB: 'Player B',
+    noHeadToHead: 'No matches between them.',
+    headToHeadResult: (name1, wins1, wins2, name2, games1, games2) =>
+      `${name1} ${wins1} – ${wins2} ${name2} in matches (games ${games1}–${games2})`,
+  },
+
+  tournament: {
+    defaultName: 'Tournament',
+    newTournament: 'New tournament',
+    name: 'Name',
+    namePlaceholder: 'Club night',
+    type: 'Type',
+    roundRobin: 'Round robin',
+    knockout: 'Knockout',
+    groups: 'Groups',
+    courts: 'Courts',
+    format: 'Format',
+    participantsHint: 'Participants, one per line in seeding order (best first)',
+    create: (count) => `Draw tournament (${count} participants)`,
+    walkover: 'Walkover',
+    vs: 'vs',
+    court: 'Court',
+    noCourt: 'Court –',
+    continueMatch: '▶ Continue',
+    startMatch: '▶ Start',
+    courtCount: (count) => (count === 1 ? '1 court' : `${count} courts`),
+    participantCount: (count) => (count === 1 ? '1 participant' : `${count} participants`),
+    won: (name) => `🏆 ${name} won the tournament`,
+    assignCourts: 'Assign free courts',
+    group: (letter) => `Group ${letter}`,
+    participant: 'Participant',
+    played: 'P',
+    playedTitle: 'Played',
+    winLoss: 'W–L',
+    winLossTitle: 'Wins–losses',
+    games: 'Games',
+    gamesTitle: 'Game difference',
+    points: 'Points',
+    pointsTitle: 'Point difference',
+    round: (round) => `Round ${round}`,
+    final: 'Final',
+    semifinal: 'Semi-final',
+    allTournaments: '← All tournaments',
+    confirmDelete: (name) => `Delete the tournament ${name}?`,
+  },
+
+  venue: {
+    matchPoint: 'Match point',
+    gamePoint: 'Game point',
+    done: 'Finished',
+    serving: 'Serving',
+    noMatch: 'No match',
+    linkOrId: 'Scoreboard link or match id',
+    fromOtherDevice: 'From another device',
+    addCourt: '+ Add court',
+    removeLastCourt: 'Remove last court',
+    chooseMatches: 'Choose matches for the courts',
+  },
+
+  inputBindings: {
+    title: '🎮 Keys and gamepad',
+    text: 'Control the counter with a keyboard, presentation clicker or gamepad. The bindings are saved on this device.',
+    actions: {
+      pointLeft: 'Point to the left side',
+      pointRight: 'Point to the right side',
+      undo: 'Undo',
+      redo: 'Redo',
+      changeEnds: 'Change ends',
+    },
+    remove: (binding) => `Remove ${binding}`,
+    removeTitle: 'Remove',
+    capturing: 'Press a key or button… (Esc cancels)',
+    add: '+ Add',
+    reset: 'Restore defaults',
+    space: 'Space',
+    backspace: 'Backspace',
+    gamepadButton: (button) => `Gamepad ${button}`,
+  },
+
+  displaySettings: {
+    title: '🎨 Scoreboard look',
+    text: 'Saved on this device and shown on the scoreboards for matches counted here.',
+    theme: 'Theme',
+    themes: {
+      standard: 'Standard',
+      light: 'Light',
+      dark: 'Dark',
+      contrast: 'High contrast',
+    },
+    layout: 'Layout',
+    layouts: {
+      auto: 'Follow the screen',
+      landscape: 'Landscape – side by side',
+      portrait: 'Portrait – stacked',
+    },
+    fontScale: 'Text size',
+    logo: 'Club logo',
+    logoError: 'Could not read the image, or it is too large',
+    removeLogo: 'Remove logo',
+    color: (name) => `Colour – ${name}`,
+    removeColor: 'Remove colour',
+    reset: 'Restore defaults',
+  },
+
+  update: {
+    newVersion: 'A new version is available.',
+    offlineReady: 'The app now works offline.',
+    update: 'Update',
+    later: 'Later',
+    ok: 'OK',
+  },
+}
@@ -0,0 +1,429 @@
+/**
+ * Svenska texter – förlagan för meddelandekatalogen. Typen Messages härleds
+ * härifrån, så övriga språk måste ha exakt samma nycklar.
+ */
+import type { DisplayLayout, DisplayTheme } from './display-settings'
+import type { InputAction } from './input-bindings'
+import type { MatchFormatPresetId } from './match-format'
+import type { OverlayTheme } from './StreamOverlay'
+
+export const sv = {
+  appName: 'Badminton Poängräknare',
+  language: 'Språk',
+
+  common: {
+    backToCounter: '← Till poängräknaren',
+    close: 'Stäng',
+    cancel: 'Avbryt',
+    delete: 'Ta bort',
+    copy: 'Kopiera',
+    copied: 'Kopierat!',
+    downloadFile: 'Ladda ner fil',
+    downloaded: 'Nedladdad!',
+    loadingQr: 'Laddar QR-kod…',
+    waitingForData: 'Väntar på matchdata…',
+    court: (court: number) => `Bana ${court}`,
+    set: 'Set',
+    singles: 'singel',
+    doubles: 'dubbel',
+    ongoing: 'pågår',
+    imageReadError: 'Kunde inte läsa bilden',
+    unknownDate: 'Okänt datum',
+  },
+
+  nav: {
+    history: '📋 Matchhistorik',
+    players: '👥 Spelarregister',
+    stats: '📊 Statistik',
+    tournament: '🏆 Turnering',
+    venue: '🖥 Hallvy',
+  },
+
+  service: {
+    player: (side: number) => `Spelare ${side}`,
+    partner: (side: number) => `Partner ${side}`,
+    rightCourt: 'höger ruta',
+    leftCourt: 'vänster ruta',
+  },
+
+  format: {
+    oneGame: '1 game',
+    bestOf: (games: number) => `Bäst av ${games}`,
+    points: (points: number) => `${points} poäng`,
+    rally: 'rallypoäng',
+    sideout: 'side-out',
+    presets: {
+      bwf: 'Standard (BWF)',
+      'practice-15': 'Träning 15 poäng',
+      'trial-5x11': 'Bäst av fem, 11 poäng',
+      'sideout-15': 'Gammal side-out, 15 poäng',
+    } satisfies Record<MatchFormatPresetId, string>,
+  },
+
+  counter: {
+    partner: 'Partner',
+    switchCourts: 'Byt serveruta',
+    switchCourtsTitle: 'Spelarna byter serveruta',
+    switchCourtsButton: '⇅ Byt ruta',
+    addPoint: 'Öka poäng',
+    finishedGames: 'Avslutade game',
+    changeEnds: 'Byt sida',
+    changeEndsButton: '⇄ Byt sida',
+    undo: 'Ångra',
+    undoButton: '↶ Ångra',
+    redo: 'Gör om',
+    redoButton: '↷ Gör om',
+    serverAtStart: 'Servar från start',
+    serviceFrom: (court: string, receiver: string) => `från ${court} · tar emot: ${receiver}`,
+    startedServing: (name: string) => `Började serva: ${name}`,
+    wonMatch: (name: string, set1: number, set2: number) => `🏆 ${name} vann matchen ${set1}–${set2}`,
+    showDisplayQr: '📺 Visa QR för poängvisare',
+    handOver: '🔑 Lämna över till annan enhet',
+    openAsDisplay: '📷 Skanna QR – öppna som poängvisare',
+    saveMatch: 'Spara match',
+    inputBindings: '🎮 Tangenter och handkontroll',
+    displaySettings: '🎨 Tavlans utseende',
+    storageFull: 'Matchen kunde inte sparas på enheten – lagringen är full.',
+    saveInfo: 'Ladda ner en fil med matchresultat eller kopiera till urklipp',
+    newMatch: 'Starta ny match',
+  },
+
+  interval: {
+    interval: 'Paus',
+    break: 'Paus mellan game',
+    changeEnds: 'byt sida',
+    endChangePrompt: '⇄ Byte av sida – spelarna byter planhalva. Poängräknaren och tavlan har vänts.',
+    ok: 'OK',
+  },
+
+  situation: {
+    gamePoint: 'Gameboll',
+    matchPoint: 'Matchboll',
+    deuce: 'Förlängning',
+    decidingPoint: (score: number) => `${score}–${score} · avgörande boll`,
+    intervalDue: 'Paus vid nästa poäng',
+  },
+
+  announcer: {
+    on: '🔊 Utrop på',
+    off: '🔇 Utrop av',
+    language: 'Språk för utrop',
+    volume: 'Volym',
+    turnOn: 'Slå på utrop',
+    turnOff: 'Stäng av utrop',
+  },
+
+  saveModal: {
+    title: 'Matchresultat',
+    printSheet: '🖨 Protokoll',
+    downloadPdf: 'Protokoll (PDF)',
+  },
+
+  newMatch: {
+    title: 'Starta ny match',
+    singles: 'Singel',
+    doubles: 'Dubbel',
+    pointsToWin: 'Poäng per game',
+    maxPoints: 'Tak',
+    gamesToWin: 'Game för vinst',
+    scoring: 'Poängsystem',
+    rally: 'Rallypoäng',
+    sideout: 'Side-out',
+    start: 'Starta',
+  },
+
+  handover: {
+    title: 'Lämna över poängräkningen',
+    text:
+      'Skanna QR-koden med enheten som ska ta över. Koden ger full skrivrätt till matchen – visa den inte för publiken. Tryck på Klar när den andra enheten har tagit över.',
+    qrAlt: 'QR-kod för överlämning',
+    done: 'Klar – släpp skrivrätten',
+    pageTitle: '🔑 Ta över poängräkningen',
+    invalidLink: 'Överlämningslänken är ogiltig. Skanna QR-koden igen.',
+    noSync: 'Ingen synk mellan enheter är konfigurerad, så matchen kan inte hämtas till den här enheten.',
+    fetching: 'Hämtar matchen från den andra enheten…',
+  },
+
+  displayQr: {
+    title: 'Poängvisare – koppla enhet till denna match',
+    text: 'Skanna QR-koden med den enhet som ska visa poängen. Den enheten är då kopplad till denna match.',
+    qrAlt: 'QR-kod för poängvisare',
+    link: 'Länk till poängvisare',
+    copyLink: 'Kopiera länk',
+    overlayTitle: 'Överlägg för livesändning',
+    overlayText:
+      'Lägg till länken som webbläsarkälla i OBS (1920×1080). Bakgrunden är genomskinlig och ställningen visas i nedre vänstra hörnet.',
+    overlayTheme: 'Tema för överlägget',
+    overlayLink: 'Länk till överlägget',
+    copyOverlayLink: 'Kopiera överläggslänk',
+  },
+
+  overlay: {
+    themes: {
+      classic: 'Klassiskt',
+      dark: 'Mörkt',
+      light: 'Ljust',
+      club: 'Klubbfärger',
+    } satisfies Record<OverlayTheme, string>,
+    missingMatch: 'Överlägget saknar match – kopiera länken från poängräknarens QR-ruta.',
+  },
+
+  sync: {
+    updates: (count: number) => (count === 1 ? '1 uppdatering' : `${count} uppdateringar`),
+    none: 'Ingen synk',
+    writeDenied: 'Skrivskyddad – en annan enhet äger matchen',
+    tabs: 'Synk mellan flikar',
+    offline: 'Offline',
+    offlineQueued: (updates: string) => `Offline · ${updates} väntar`,
+    sending: (updates: string) => `Skickar ${updates}…`,
+    connected: 'Ansluten',
+    updatedAt: (time: string) => `uppdaterad ${time}`,
+  },
+
+  display: {
+    waitingForCounter: 'Väntar på matchdata från poängräknaren…',
+    waitingLocal:
+      'Väntar på matchdata. Öppna länken på samma enhet som poängräknaren, eller konfigurera Firebase eller WebSocket-reläet för synk mellan enheter.',
+    sets: (sets: number) => `Set: ${sets}`,
+    matchWinner: 'Matchvinnare',
+    serving: 'Servar',
+    serviceFrom: (court: string) => `från ${court} · tar emot`,
+    mirrorOn: 'Spegla tavlan (står på andra sidan planen)',
+    mirrorOff: 'Slå av spegling',
+  },
+
+  scan: {
+    title: '🏸 Poängvisare',
+    text: 'Koppla denna enhet till en match genom att skanna QR-koden som visas i poängräknaren.',
+    start: '📷 Skanna QR för att koppla till match',
+    cameraError: 'Kunde inte starta kameran',
+  },
+
+  summary: {
+    heading: 'BADMINTON MATCH',
+    date: 'Datum',
+    format: 'Format',
+    sets: 'Set',
+    game: (game: number) => `Game ${game}`,
+    points: 'Poäng',
+    matchTime: 'Matchtid',
+    ongoing: '(pågår)',
+    serverAtStart: 'Servar från start',
+    matchWinner: 'Matchvinnare (set)',
+    lastSet: 'Senaste set (poäng)',
+    draw: 'Oavgjort.',
+  },
+
+  sheet: {
+    title: 'Matchprotokoll badminton',
+    documentTitle: (team1: string, team2: string) => `Protokoll – ${team1} mot ${team2}`,
+    print: 'Skriv ut / spara som PDF',
+    competition: 'Tävling:',
+    court: 'Bana:',
+    matchNumber: 'Matchnummer:',
+    date: (date: string) => `Datum: ${date}`,
+    times: (start: string, end: string) => `Start: ${start} · Slut: ${end}`,
+    matchTime: (duration: string) => `Matchtid ${duration}`,
+    result: 'Resultat',
+    side: 'Sida',
+    game: (game: number) => `Game ${game}`,
+    games: 'Game',
+    winner: (name: string) => `Vinnare: ${name}`,
+    notFinished: 'Matchen är inte avslutad.',
+    playTime: (duration: string) => `Speltid ${duration}`,
+    ongoing: 'Pågår',
+    intervalAt: (score: string) => `Paus vid ${score}`,
+    breakBefore: (duration: string) => `Paus före nästa game: ${duration}`,
+    legend: 'S/R = servar/tar emot först. Siffran är ställningen för sidan som vann bollen; / = vann serven utan poäng.',
+    intervalDoubleLine: 'Dubbelstreck = paus.',
+    intervalThickLine: 'Tjock linje = paus.',
+    noRallyLog: 'Matchen sparades utan fullständig boll-för-boll-logg.',
+    signatures: ['Domare', 'Lagledare / spelare sida 1', 'Lagledare / spelare sida 2'],
+    fileName: 'protokoll',
+  },
+
+  history: {
+    search: 'Sök spelare',
+    exportAllJson: '⬇ Exportera alla (JSON)',
+    exportAllCsv: '⬇ Exportera alla (CSV)',
+    csvHeader: [
+      'match_id',
+      'datum',
+      'format',
+      'dubbel',
+      'sida_1',
+      'sida_2',
+      'game',
+      'poang_1',
+      'poang_2',
+      'speltid_s',
+      'gamevinnare',
+      'matchvinnare',
+    ],
+    csvYes: 'ja',
+    csvNo: 'nej',
+    importJson: '⬆ Importera JSON',
+    readError: 'Kunde inte läsa filen',
+    notAnExport: (file: string) => `${file}: inte en matchexport`,
+    imported: (count: number) => `${count} importerade`,
+    alreadyStored: (count: number) => `${count} fanns redan`,
+    invalid: (count: number) => `${count} ogiltiga`,
+    saveFailed: (count: number) => `${count} kunde inte sparas (lagringen är full)`,
+    empty: 'Inga sparade matcher ännu.',
+    noResults: 'Inga matcher matchar sökningen.',
+    sets: (set1: number, set2: number) => `Set ${set1}–${set2}`,
+    showOnDisplay: '📺 Visa på tavla',
+    resume: '▶ Återuppta',
+    confirmDelete: (match: string) => `Ta bort matchen ${match}?`,
+  },
+
+  roster: {
+    name: 'Namn',
+    club: 'Klubb',
+    handedness: 'Spelhand',
+    right: 'Höger',
+    left: 'Vänster',
+    color: 'Färg',
+    photo: 'Foto',
+    photoError: 'Kunde inte läsa bilden',
+    removePhoto: 'Ta bort foto',
+    removeColor: 'Ta bort färg',
+    removePlayer: 'Ta bort spelare',
+    confirmDelete: (name: string) => `Ta bort ${name} från spelarregistret?`,
+    newPlayer: 'Ny spelare',
+    add: 'Lägg till',
+    empty: 'Inga spelare ännu. Namn som skrivs in i poängräknaren läggs till automatiskt.',
+  },
+
+  stats: {
+    empty: 'Ingen statistik ännu – spela klart en match först.',
+    player: 'Spelare',
+    matches: 'M',
+    matchesTitle: 'Matcher',
+    winLoss: 'V–F',
+    winLossTitle: 'Vinster–förluster',
+    winRateTitle: 'Andel vunna matcher',
+    games: 'Game',
+    gamesTitle: 'Vunna–förlorade game',
+    pointsPerGame: 'Poäng/game',
+    pointsPerGameTitle: 'Snittpoäng per game',
+    deuce: 'Förl.',
+    deuceTitle: 'Vunna förlängningsgame',
+    streak: 'Svit',
+    streakTitle: 'Längsta bollsvit',
+    headToHead: 'Inbördes möten',
+    playerA: 'Spelare A',
+    playerB: 'Spelare B',
+    noHeadToHead: 'Inga inbördes matcher.',
+    headToHeadResult: (name1: string, wins1: number, wins2: number, name2: string, games1: number, games2: number) =>
+      `${name1} ${wins1} – ${wins2} ${name2} i matcher (game ${games1}–${games2})`,
+  },
+
+  tournament: {
+    defaultName: 'Turnering',
+    newTournament: 'Ny turnering',
+    name: 'Namn',
+    namePlaceholder: 'Klubbkväll',
+    type: 'Typ',
+    roundRobin: 'Gruppspel',
+    knockout: 'Utslagsturnering',
+    groups: 'Grupper',
+    courts: 'Banor',
+    format: 'Format',
+    participantsHint: 'Deltagare, en per rad i seedningsordning (bäst först)',
+    create: (count: number) => `Lotta turnering (${count} deltagare)`,
+    walkover: 'Walk over',
+    vs: 'vs',
+    court: 'Bana',
+    noCourt: 'Bana –',
+    continueMatch: '▶ Fortsätt',
+    startMatch: '▶ Starta',
+    courtCount: (count: number) => (count === 1 ? '1 bana' : `${count} banor`),
+    participantCount: (count: number) => `${count} deltagare`,
+    won: (name: string) => `🏆 ${name} vann turneringen`,
+    assignCourts: 'Fördela lediga banor',
+    group: (letter: string) => `Grupp ${letter}`,
+    participant: 'Deltagare',
+    played: 'S',
+    playedTitle: 'Spelade',
+    winLoss: 'V–F',
+    winLossTitle: 'Vinster–förluster',
+    games: 'Game',
+    gamesTitle: 'Gamedifferens',
+    points: 'Poäng',
+    pointsTitle: 'Poängdifferens',
+    round: (round: number) => `Omgång ${round}`,
+    final: 'Final',
+    semifinal: 'Semifinal',
+    allTournaments: '← Alla turneringar',
+    confirmDelete: (name: string) => `Ta bort turneringen ${name}?`,
+  },
+
+  venue: {
+    matchPoint: 'Matchboll',
+    gamePoint: 'Gameboll',
+    done: 'Klar',
+    serving: 'Servar',
+    noMatch: 'Ingen match',
+    linkOrId: 'Visarlänk eller match-id',
+    fromOtherDevice: 'Från en annan enhet',
+    addCourt: '+ Lägg till bana',
+    removeLastCourt: 'Ta bort sista banan',
+    chooseMatches: 'Välj matcher för banorna',
+  },
+
+  inputBindings: {
+    title: '🎮 Tangenter och handkontroll',
+    text: 'Styr poängräknaren med tangentbord, presentationsklicker eller handkontroll. Bindningarna sparas på den här enheten.',
+    actions: {
+      pointLeft: 'Poäng till vänster sida',
+      pointRight: 'Poäng till höger sida',
+      undo: 'Ångra',
+      redo: 'Gör om',
+      changeEnds: 'Byt sida',
+    } satisfies Record<InputAction, string>,
+    remove: (binding: string) => `Ta bort ${binding}`,
+    removeTitle: 'Ta bort',
+    capturing: 'Tryck på en tangent eller knapp… (Esc avbryter)',
+    add: '+ Lägg till',
+    reset: 'Återställ standard',
+    space: 'Mellanslag',
+    backspace: 'Backsteg',
+    gamepadButton: (button: number) => `Handkontroll ${button}`,
+  },
+
+  displaySettings: {
+    title: '🎨 Tavlans utseende',
+    text: 'Sparas på den här enheten och syns på tavlorna för matcher som räknas här.',
+    theme: 'Tema',
+    themes: {
+      standard: 'Standard',
+      light: 'Ljust',
+      dark: 'Mörkt',
+      contrast: 'Hög kontrast',
+    } satisfies Record<DisplayTheme, string>,
+    layout: 'Layout',
+    layouts: {
+      auto: 'Efter skärmen',
+      landscape: 'Liggande – sida vid sida',
+      portrait: 'Stående – över varandra',
+    } satisfies Record<DisplayLayout, string>,
+    fontScale: 'Textstorlek',
+    logo: 'Klubblogga',
+    logoError: 'Kunde inte läsa bilden, eller så är den för stor',
+    removeLogo: 'Ta bort logga',
+    color: (name: string) => `Färg – ${name}`,
+    removeColor: 'Ta bort färg',
+    reset: 'Återställ standard',
+  },
+
+  update: {
+    newVersion: 'En ny version finns.',
+    offlineReady: 'Appen fungerar nu utan nätverk.',
+    update: 'Uppdatera',
+    later: 'Senare',
+    ok: 'OK',
+  },
+}
+
+export type Messages = typeof sv
@@ -1,10 +1,18 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
+import '@fontsource/outfit/400.css'
+import '@fontsource/outfit/600.css'
+import '@fontsource/outfit/700.css'
 import App from './App.tsx'
 import './index.css'
+import UpdatePrompt from './UpdatePrompt.tsx'
+
+// Överlägget i OBS ska inte visa något annat än ställningen
+const isOverlay = new URLSearchParams(window.location.search).get('overlay') === '1'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
+    {!isOverlay && <UpdatePrompt />}
   </StrictMode>,
 )
@@ -0,0 +1,336 @@
+/**
+ * Ett gemensamt format för matchstate – localStorage, synk och import.
+ * Sparat state märks med schemaVersion; äldre versioner lyfts steg för steg
+ * genom MIGRATIONS till aktuell version och valideras sedan strikt. Ogiltig
+ * data ger null i stället för att tyst bli 0-0.
+ *
+ * Nya fält läggs till genom att höja SCHEMA_VERSION och lägga till en migrering
+ * som ger fältet ett standardvärde. Data från en nyare version av appen (t.ex.
+ * en uppdaterad poängräknare och en äldre visare) läses ändå – okända fält ignoreras.
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import { DEFAULT_MATCH_FORMAT, parseMatchFormat, type MatchFormat } from './match-format'
+import { getInitialState, getLogStart, replayEvents, type LogStart, type MatchEvent } from './match-log'
+import {
+  NO_SITUATION,
+  getMatchSituation,
+  type GameScore,
+  type MatchInterval,
+  type MatchSituation,
+} from './match-rules'
+import type { CourtPlayer } from './service'
+
+export const SCHEMA_VERSION = 7
+
+/** Matchstate så som det lagras och skickas. */
+export type EncodedMatchState = ScoreboardState & { schemaVersion: number }
+
+type Data = Record<string, unknown>
+
+/** Fyller i saknade fält; null räknas som saknat om standardvärdet inte är null. */
+function withDefaults(d: Data, defaults: Data): Data {
+  const result: Data = { ...d }
+  for (const [key, value] of Object.entries(defaults)) {
+    if (result[key] === undefined || (result[key] === null && value !== null)) result[key] = value
+  }
+  return result
+}
+
+/** MIGRATIONS[n] lyfter data från schemaVersion n till n + 1. */
+const MIGRATIONS: Record<number, (d: Data) => Data> = {
+  // 1: matcher sparade innan schemaVersion fanns. Fälten har tillkommit efter hand,
+  // så de äldsta matcherna saknar allt utom namn, poäng, set och server, och
+  // formatet kan sakna senare tillkomna delar. Namn, poäng och set har alltid
+  // funnits – saknas de är det ingen match, och data lämnas till valideringen.
+  1: (d) => {
+    if (![d.name1, d.name2].every(isString) || ![d.score1, d.score2, d.set1, d.set2].every(isCount)) return d
+    const serverAtStart = d.serverAtStart === 2 ? 2 : 1
+    const currentServer = d.currentServer === 1 || d.currentServer === 2 ? d.currentServer : serverAtStart
+    return withDefaults(
+      { ...d, serverAtStart, currentServer, format: d.format == null ? undefined : parseMatchFormat(d.format) },
+      {
+        doubles: false,
+        partner1: '',
+        partner2: '',
+        player1Id: null,
+        player2Id: null,
+        partner1Id: null,
+        partner2Id: null,
+        rightCourt1: 0,
+        rightCourt2: 0,
+        games: [],
+        gameStartedAt: null,
+        createdAt: null,
+        format: DEFAULT_MATCH_FORMAT,
+        events: [],
+        version: 0,
+        updatedAt: null,
+      }
+    )
+  },
+  // 2: matchens start- och sluttid samt pågående paus. Tiderna tas ur loggen:
+  // första bollen, och avgörande game-händelse om matchen är avslutad.
+  2: (d) => {
+    const events = Array.isArray(d.events) ? (d.events as Data[]) : []
+    const format = isObject(d.format) ? d.format : {}
+    const firstPoint = events.find((e) => isObject(e) && e.type === 'point')
+    const lastEvent = events[events.length - 1]
+    const isOver = [d.set1, d.set2].some((sets) => typeof sets === 'number' && sets >= Number(format.gamesToWin))
+    return withDefaults(d, {
+      matchStartedAt: firstPoint?.at ?? null,
+      matchEndedAt: isOver && isObject(lastEvent) && lastEvent.type === 'game' ? lastEvent.at : null,
+      interval: null,
+    })
+  },
+  // 3: sidbyten byter inte längre plats på spelare 1 och 2 utan anges med ends.
+  // Tidigare bytte varje swap-händelse namn, set och server mellan sidorna, så
+  // sparat state vänds tillbaka till ordningen vid matchstart och händelser efter
+  // ett udda antal sidbyten får sidan omvänd.
+  3: (d) => {
+    const flip = (side: unknown) => (side === 1 ? 2 : side === 2 ? 1 : side)
+    const events = Array.isArray(d.events) ? (d.events as unknown[]) : []
+    let swapped = false
+    const converted = events.map((e) => {
+      if (!isObject(e)) return e
+      if (e.type === 'swap') {
+        swapped = !swapped
+        return { type: 'ends', at: e.at }
+      }
+      if (!swapped) return e
+      return e.type === 'court' ? { ...e, side: flip(e.side) } : { ...e, player: flip(e.player) }
+    })
+    const interval = isObject(d.interval) ? { ...d.interval, changeEnds: d.interval.kind === 'break' } : d.interval
+    const migrated: Data = { ...d, events: converted, interval, ends: swapped ? 2 : 1 }
+    if (!swapped) return migrated
+    return {
+      ...migrated,
+      name1: d.name2,
+      name2: d.name1,
+      partner1: d.partner2,
+      partner2: d.partner1,
+      player1Id: d.player2Id,
+      player2Id: d.player1Id,
+      partner1Id: d.partner2Id,
+      partner2Id: d.partner1Id,
+      rightCourt1: d.rightCourt2,
+      rightCourt2: d.rightCourt1,
+      score1: d.score2,
+      score2: d.score1,
+      set1: d.set2,
+      set2: d.set1,
+      games: Array.isArray(d.games)
+        ? d.games.map((g) => (isObject(g) ? { ...g, score1: g.score2, score2: g.score1 } : g))
+        : d.games,
+      serverAtStart: flip(d.serverAtStart),
+      currentServer: flip(d.currentServer),
+    }
+  },
+  // 4: tavlans utseende låg en tid i matchen (display). Det sparas nu per enhet
+  // och synkas för sig, så fältet ignoreras.
+  4: (d) => d,
+  // 5: matchläget (gamepoäng, deuce …) sparas med ställningen. Det härleds här
+  // för äldre data; ogiltig data lämnas orörd och avvisas av valideringen.
+  // (logStart tillkommer i nästa migrering och påverkar inte matchläget.)
+  5: (d) => {
+    const state = decodeCurrent({ ...d, situation: NO_SITUATION, logStart: null })
+    return state ? { ...d, situation: getMatchSituation(state) } : d
+  },
+  // 6: ställningen när loggen började. Matcher sparade innan loggen fanns (eller
+  // spelade vidare efter det) har en logg som inte ger den sparade ställningen.
+  // Då blir ställningen utgångsläge och den ofullständiga loggen tas bort, så att
+  // ångra inte nollställer matchen och game inte härleds ur en del av matchen.
+  6: (d) => {
+    const state = decodeCurrent({ ...d, logStart: null })
+    if (!state) return d
+    const replayed = replayEvents(getInitialState(state), state.events)
+    const complete = (['score1', 'score2', 'set1', 'set2'] as const).every((key) => replayed[key] === state[key])
+    return complete ? { ...d, logStart: null } : { ...d, logStart: getLogStart(state), events: [] }
+  },
+}
+
+const isObject = (v: unknown): v is Data => typeof v === 'object' && v !== null && !Array.isArray(v)
+const isString = (v: unknown): v is string => typeof v === 'string'
+const isBoolean = (v: unknown): v is boolean => typeof v === 'boolean'
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0
+const isTime = (v: unknown): v is number | null => v === null || (typeof v === 'number' && Number.isFinite(v) && v >= 0)
+const isSide = (v: unknown): v is ServerPlayer => v === 1 || v === 2
+const isCourt = (v: unknown): v is CourtPlayer => v === 0 || v === 1
+const isPlayerId = (v: unknown): v is string | null => v === null || (typeof v === 'string' && v !== '')
+
+function decodeList<T>(data: unknown, decode: (item: unknown) => T | null): T[] | null {
+  if (!Array.isArray(data)) return null
+  const items: T[] = []
+  for (const item of data) {
+    const decoded = decode(item)
+    if (!decoded) return null
+    items.push(decoded)
+  }
+  return items
+}
+
+function decodeFormat(data: unknown): MatchFormat | null {
+  if (!isObject(data)) return null
+  const { pointsToWin, maxPoints, gamesToWin, scoring } = data
+  if (!isCount(pointsToWin) || pointsToWin < 1 || pointsToWin > 99) return null
+  if (!isCount(maxPoints) || maxPoints < pointsToWin || maxPoints > 99) return null
+  if (!isCount(gamesToWin) || gamesToWin < 1 || gamesToWin > 9) return null
+  if (scoring !== 'rally' && scoring !== 'sideout') return null
+  return { pointsToWin, maxPoints, gamesToWin, scoring }
+}
+
+function decodeGame(data: unknown): GameScore | null {
+  if (!isObject(data)) return null
+  const { score1, score2, durationMs } = data
+  if (!isCount(score1) || !isCount(score2) || !isCount(durationMs)) return null
+  return { score1, score2, durationMs }
+}
+
+function decodeInterval(data: unknown): MatchInterval | null | undefined {
+  if (data === null) return null
+  if (!isObject(data) || (data.kind !== 'interval' && data.kind !== 'break')) return undefined
+  const { startedAt, durationMs, changeEnds } = data
+  if (!isTime(startedAt) || startedAt === null || !isCount(durationMs) || !isBoolean(changeEnds)) return undefined
+  return { kind: data.kind, startedAt, durationMs, changeEnds }
+}
+
+function decodeSituation(data: unknown): MatchSituation | null {
+  if (!isObject(data)) return null
+  const side = (v: unknown) => (isSide(v) ? v : null)
+  const gamePoint = decodeList(data.gamePoint, side)
+  const matchPoint = decodeList(data.matchPoint, side)
+  const { deuce, decidingPoint, intervalDue } = data
+  if (!gamePoint || !matchPoint || !isBoolean(deuce) || !isBoolean(decidingPoint) || !isBoolean(intervalDue)) {
+    return null
+  }
+  return { gamePoint, matchPoint, deuce, decidingPoint, intervalDue }
+}
+
+function decodeLogStart(data: unknown): LogStart | null | undefined {
+  if (data === null) return null
+  if (!isObject(data)) return undefined
+  const games = decodeList(data.games, decodeGame)
+  const { score1, score2, set1, set2, serverAtStart, currentServer, ends, rightCourt1, rightCourt2 } = data
+  const { gameStartedAt, matchStartedAt } = data
+  if (!games || !isCount(score1) || !isCount(score2) || !isCount(set1) || !isCount(set2)) return undefined
+  if (!isSide(serverAtStart) || !isSide(currentServer) || !isSide(ends)) return undefined
+  if (!isCourt(rightCourt1) || !isCourt(rightCourt2) || !isTime(gameStartedAt) || !isTime(matchStartedAt)) {
+    return undefined
+  }
+  return {
+    score1,
+    score2,
+    set1,
+    set2,
+    games,
+    serverAtStart,
+    currentServer,
+    ends,
+    rightCourt1,
+    rightCourt2,
+    gameStartedAt,
+    matchStartedAt,
+  }
+}
+
+function decodeEvent(data: unknown): MatchEvent | null {
+  if (!isObject(data) || !isTime(data.at) || data.at === null) return null
+  const at = data.at
+  switch (data.type) {
+    case 'ends':
+      return { type: 'ends', at }
+    case 'court':
+      return isSide(data.side) ? { type: 'court', side: data.side, at } : null
+    case 'point':
+    case 'game':
+      return isSide(data.player) ? { type: data.type, player: data.player, at } : null
+    case 'server':
+      if (!isSide(data.player) || (data.from !== undefined && !isSide(data.from))) return null
+      return data.from === undefined
+        ? { type: 'server', player: data.player, at }
+        : { type: 'server', player: data.player, from: data.from, at }
+    default:
+      return null
+  }
+}
+
+/** Fält med egen avkodare – övriga fält kontrolleras i FIELD_CHECKS. */
+type DecodedField = 'format' | 'games' | 'events' | 'logStart' | 'interval' | 'situation'
+
+/** En kontroll per enkelt fält – typen kräver att nya fält i ScoreboardState får en kontroll här. */
+const FIELD_CHECKS: Record<Exclude<keyof ScoreboardState, DecodedField>, (v: unknown) => boolean> = {
+  name1: isString,
+  name2: isString,
+  doubles: isBoolean,
+  partner1: isString,
+  partner2: isString,
+  player1Id: isPlayerId,
+  player2Id: isPlayerId,
+  partner1Id: isPlayerId,
+  partner2Id: isPlayerId,
+  rightCourt1: isCourt,
+  rightCourt2: isCourt,
+  score1: isCount,
+  score2: isCount,
+  set1: isCount,
+  set2: isCount,
+  gameStartedAt: isTime,
+  matchStartedAt: isTime,
+  matchEndedAt: isTime,
+  createdAt: isTime,
+  serverAtStart: isSide,
+  currentServer: isSide,
+  ends: isSide,
+  version: isCount,
+  updatedAt: isTime,
+}
+
+function decodeCurrent(d: Data): ScoreboardState | null {
+  const format = decodeFormat(d.format)
+  const games = decodeList(d.games, decodeGame)
+  const events = decodeList(d.events, decodeEvent)
+  const logStart = decodeLogStart(d.logStart)
+  const interval = decodeInterval(d.interval)
+  const situation = decodeSituation(d.situation)
+  if (!format || !games || !events || logStart === undefined || interval === undefined || !situation) return null
+  const fields: Data = {}
+  for (const [key, check] of Object.entries(FIELD_CHECKS)) {
+    if (!check(d[key])) return null
+    fields[key] = d[key]
+  }
+  return {
+    ...(fields as Omit<ScoreboardState, DecodedField>),
+    format,
+    games,
+    events,
+    logStart,
+    interval,
+    situation,
+  }
+}
+
+export function encodeMatchState(state: ScoreboardState): EncodedMatchState {
+  return { schemaVersion: SCHEMA_VERSION, ...state }
+}
+
+/** Matchstate ur lagrad eller mottagen data, eller null om den är ogiltig. */
+export function decodeMatchState(data: unknown): ScoreboardState | null {
+  if (!isObject(data)) return null
+  const schemaVersion = data.schemaVersion === undefined ? 1 : data.schemaVersion
+  if (!isCount(schemaVersion) || schemaVersion < 1) return null
+  let d = data
+  for (let v = schemaVersion; v < SCHEMA_VERSION; v++) d = MIGRATIONS[v](d)
+  return decodeCurrent(d)
+}
+
+export function serializeMatchState(state: ScoreboardState): string {
+  return JSON.stringify(encodeMatchState(state))
+}
+
+export function parseMatchStateJson(text: string | null): ScoreboardState | null {
+  if (!text) return null
+  try {
+    return decodeMatchState(JSON.parse(text))
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Export och import av matcher. JSON-exporten innehåller hela matchstate
+ * (inklusive händelseloggen) och kan importeras igen; CSV-exporten har en rad
+ * per game för kalkylblad.
+ */
+import type { ScoreboardState } from './App'
+import { decodeMatchState, encodeMatchState, type EncodedMatchState } from './match-codec'
+import { getMessages } from './i18n'
+import { describeMatchFormat } from './match-format'
+import { getMatchWinner } from './match-rules'
+import { getMatchStartTime, isMatchId, loadMatchState, saveMatchState, type StoredMatch } from './match-storage'
+import { getTeamName } from './service'
+
+const EXPORT_KIND = 'badminton-matches'
+const EXPORT_VERSION = 1
+
+export interface MatchExport {
+  kind: typeof EXPORT_KIND
+  exportVersion: number
+  exportedAt: number
+  matches: { id: string; state: EncodedMatchState }[]
+}
+
+export interface ImportResult {
+  /** Giltiga matcher i filen. */
+  matches: StoredMatch[]
+  /** Poster som inte kunde läsas. */
+  invalid: number
+}
+
+export interface MergeResult {
+  added: number
+  /** Matcher vars id redan fanns i historiken – de lämnas orörda. */
+  skipped: number
+  /** Matcher som inte kunde sparas, t.ex. för att lagringen är full. */
+  failed: number
+}
+
+export function exportMatchesJson(matches: StoredMatch[]): string {
+  const data: MatchExport = {
+    kind: EXPORT_KIND,
+    exportVersion: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    matches: matches.map(({ id, state }) => ({ id, state: encodeMatchState(state) })),
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value)
+  return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function gameRows(id: string, state: ScoreboardState): (string | number)[][] {
+  const start = getMatchStartTime(state)
+  const side1 = getTeamName(state, 1)
+  const side2 = getTeamName(state, 2)
+  const matchWinner = getMatchWinner(state)
+  const m = getMessages().history
+  const common = [
+    id,
+    start ? new Date(start).toISOString() : '',
+    describeMatchFormat(state.format),
+    state.doubles ? m.csvYes : m.csvNo,
+    side1,
+    side2,
+  ]
+  const winnerName = matchWinner === 1 ? side1 : matchWinner === 2 ? side2 : ''
+  const rows = state.games.map((game, i) => [
+    ...common,
+    i + 1,
+    game.score1,
+    game.score2,
+    Math.round(game.durationMs / 1000),
+    game.score1 > game.score2 ? side1 : side2,
+    winnerName,
+  ])
+  // Pågående game tas med utan vinnare så att avbrutna matcher syns
+  if (!matchWinner && state.score1 + state.score2 > 0) {
+    rows.push([...common, state.games.length + 1, state.score1, state.score2, '', '', ''])
+  }
+  return rows
+}
+
+/**
+ * En rad per game, med rubriker och värden på valt språk. Semikolon som
+ * avgränsare och BOM så att Excel med svenska inställningar öppnar filen
+ * direkt med rätt tecken.
+ */
+export function exportMatchesCsv(matches: StoredMatch[]): string {
+  const rows = [getMessages().history.csvHeader, ...matches.flatMap(({ id, state }) => gameRows(id, state))]
+  return `\uFEFF${rows.map((row) => row.map(csvCell).join(';')).join('\r\n')}\r\n`
+}
+
+/**
+ * Läser en exportfil och validerar varje match. Returnerar null om filen inte
+ * är en matchexport alls.
+ */
+export function parseMatchImport(text: string): ImportResult | null {
+  let data: unknown
+  try {
+    data = JSON.parse(text.replace(/^\uFEFF/, ''))
+  } catch {
+    return null
+  }
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (d.kind !== EXPORT_KIND || !Array.isArray(d.matches)) return null
+  const result: ImportResult = { matches: [], invalid: 0 }
+  for (const item of d.matches) {
+    const entry = (item ?? {}) as Record<string, unknown>
+    const state = decodeMatchState(entry.state)
+    if (typeof entry.id === 'string' && isMatchId(entry.id) && state) result.matches.push({ id: entry.id, state })
+    else result.invalid += 1
+  }
+  return result
+}
+
+/** Sparar importerade matcher i historiken. Befintliga match-id skrivs aldrig över. */
+export function mergeImportedMatches(matches: StoredMatch[]): MergeResult {
+  const result: MergeResult = { added: 0, skipped: 0, failed: 0 }
+  for (const { id, state } of matches) {
+    if (loadMatchState(id)) {
+      result.skipped += 1
+      continue
+    }
+    try {
+      saveMatchState(id, state)
+      result.added += 1
+    } catch {
+      result.failed += 1
+    }
+  }
+  return result
+}
@@ -0,0 +1,78 @@
+/**
+ * Matchformat – poäng per game, tak, antal game för vinst och poängsystem.
+ * Väljs när en ny match startas och sparas tillsammans med matchstate.
+ */
+import { getMessages } from './i18n'
+
+/** Rallypoäng: varje boll ger poäng. Side-out: bara den som servar kan ta poäng. */
+export type ScoringSystem = 'rally' | 'sideout'
+
+export interface MatchFormat {
+  /** Poäng som krävs för att vinna ett game (med två poängs marginal). */
+  pointsToWin: number
+  /** Tak – den som först når taket vinner gamet oavsett marginal. */
+  maxPoints: number
+  /** Antal vunna game för att vinna matchen (2 = bäst av tre). */
+  gamesToWin: number
+  scoring: ScoringSystem
+}
+
+export const DEFAULT_MATCH_FORMAT: MatchFormat = {
+  pointsToWin: 21,
+  maxPoints: 30,
+  gamesToWin: 2,
+  scoring: 'rally',
+}
+
+export type MatchFormatPresetId = 'bwf' | 'practice-15' | 'trial-5x11' | 'sideout-15'
+
+/** Namnet på ett förval finns i meddelandekatalogen (format.presets). */
+export interface MatchFormatPreset {
+  id: MatchFormatPresetId
+  format: MatchFormat
+}
+
+export const MATCH_FORMAT_PRESETS: MatchFormatPreset[] = [
+  { id: 'bwf', format: DEFAULT_MATCH_FORMAT },
+  { id: 'practice-15', format: { pointsToWin: 15, maxPoints: 21, gamesToWin: 2, scoring: 'rally' } },
+  { id: 'trial-5x11', format: { pointsToWin: 11, maxPoints: 15, gamesToWin: 3, scoring: 'rally' } },
+  { id: 'sideout-15', format: { pointsToWin: 15, maxPoints: 17, gamesToWin: 2, scoring: 'sideout' } },
+]
+
+export function isSameMatchFormat(a: MatchFormat, b: MatchFormat): boolean {
+  return (
+    a.pointsToWin === b.pointsToWin &&
+    a.maxPoints === b.maxPoints &&
+    a.gamesToWin === b.gamesToWin &&
+    a.scoring === b.scoring
+  )
+}
+
+function clampInt(value: unknown, min: number, max: number, fallback: number): number {
+  const n = Math.floor(Number(value))
+  if (!Number.isFinite(n)) return fallback
+  return Math.min(max, Math.max(min, n))
+}
+
+/** Tolkar ett format från lagrad/synkad data. Ogiltiga värden ersätts med standard. */
+export function parseMatchFormat(data: unknown): MatchFormat {
+  if (!data || typeof data !== 'object') return DEFAULT_MATCH_FORMAT
+  const d = data as Record<string, unknown>
+  const pointsToWin = clampInt(d.pointsToWin, 1, 99, DEFAULT_MATCH_FORMAT.pointsToWin)
+  return {
+    pointsToWin,
+    maxPoints: clampInt(d.maxPoints, pointsToWin, 99, Math.max(pointsToWin, DEFAULT_MATCH_FORMAT.maxPoints)),
+    gamesToWin: clampInt(d.gamesToWin, 1, 9, DEFAULT_MATCH_FORMAT.gamesToWin),
+    scoring: d.scoring === 'sideout' ? 'sideout' : 'rally',
+  }
+}
+
+/** Kort beskrivning, t.ex. "Bäst av 3 · 21 poäng (max 30) · rallypoäng". */
+export function describeMatchFormat(format: MatchFormat): string {
+  const m = getMessages().format
+  const bestOf = format.gamesToWin * 2 - 1
+  const games = bestOf === 1 ? m.oneGame : m.bestOf(bestOf)
+  const cap = format.maxPoints > format.pointsToWin ? ` (max ${format.maxPoints})` : ''
+  const scoring = format.scoring === 'sideout' ? m.sideout : m.rally
+  return `${games} · ${m.points(format.pointsToWin)}${cap} · ${scoring}`
+}
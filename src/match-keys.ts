@@ -0,0 +1,123 @@
+/**
+ * Skrivrätt per match. Poängräknaren som startar en match skapar ett
+ * Ed25519-nyckelpar och en hemlig skrivtoken:
+ * - läsnyckeln (publika nyckeln) följer med i visarlänken och QR-koden – visare
+ *   använder den för att kontrollera att uppdateringar är signerade av ägaren,
+ * - signeringsnyckeln och skrivtoken stannar på poängräknaren tills de lämnas över.
+ * Sparas i localStorage under badminton-keys, en post per match-id.
+ */
+import nacl from 'tweetnacl'
+
+export interface MatchKeys {
+  /** Publik nyckel (base64url) – delas i visarlänken. */
+  readToken: string
+  /** Hemlig token som reläet och databasreglerna kräver vid skrivning. */
+  writeToken: string
+  /** Hemlig signeringsnyckel (base64url). */
+  signingKey: string
+}
+
+const KEYS_STORAGE_KEY = 'badminton-keys'
+const WRITE_TOKEN_BYTES = 24
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach((b) => (binary += String.fromCharCode(b)))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0))
+}
+
+function parseMatchKeys(data: unknown): MatchKeys | null {
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (typeof d.readToken !== 'string' || typeof d.writeToken !== 'string' || typeof d.signingKey !== 'string') {
+    return null
+  }
+  return { readToken: d.readToken, writeToken: d.writeToken, signingKey: d.signingKey }
+}
+
+function loadAllKeys(): Record<string, MatchKeys> {
+  try {
+    const raw = localStorage.getItem(KEYS_STORAGE_KEY)
+    const data = raw ? (JSON.parse(raw) as Record<string, unknown>) : {}
+    const keys: Record<string, MatchKeys> = {}
+    for (const [matchId, value] of Object.entries(data)) {
+      const parsed = parseMatchKeys(value)
+      if (parsed) keys[matchId] = parsed
+    }
+    return keys
+  } catch {
+    return {}
+  }
+}
+
+function saveAllKeys(keys: Record<string, MatchKeys>): void {
+  localStorage.setItem(KEYS_STORAGE_KEY, JSON.stringify(keys))
+}
+
+/** Nycklar för en match som denna enhet äger, annars null. */
+export function getMatchKeys(matchId: string): MatchKeys | null {
+  return loadAllKeys()[matchId] ?? null
+}
+
+/** Läsnyckeln för en match som denna enhet äger – behövs i visarlänken. */
+export function getReadToken(matchId: string): string | null {
+  return getMatchKeys(matchId)?.readToken ?? null
+}
+
+export function saveMatchKeys(matchId: string, keys: MatchKeys): void {
+  saveAllKeys({ ...loadAllKeys(), [matchId]: keys })
+}
+
+/** Glömmer skrivrätten, t.ex. efter överlämning till en annan enhet. */
+export function deleteMatchKeys(matchId: string): void {
+  const keys = loadAllKeys()
+  delete keys[matchId]
+  saveAllKeys(keys)
+}
+
+/** Nycklar för matchen – skapas första gången så att enheten blir ägare. */
+export function getOrCreateMatchKeys(matchId: string): MatchKeys {
+  const existing = getMatchKeys(matchId)
+  if (existing) return existing
+  const pair = nacl.sign.keyPair()
+  const keys: MatchKeys = {
+    readToken: toBase64Url(pair.publicKey),
+    writeToken: toBase64Url(nacl.randomBytes(WRITE_TOKEN_BYTES)),
+    signingKey: toBase64Url(pair.secretKey),
+  }
+  saveMatchKeys(matchId, keys)
+  return keys
+}
+
+export function signPayload(keys: MatchKeys, payload: string): string {
+  const message = new TextEncoder().encode(payload)
+  return toBase64Url(nacl.sign.detached(message, fromBase64Url(keys.signingKey)))
+}
+
+/** Om payload är signerad med signeringsnyckeln som hör till readToken. */
+export function verifyPayload(readToken: string, payload: string, signature: string): boolean {
+  try {
+    const message = new TextEncoder().encode(payload)
+    return nacl.sign.detached.verify(message, fromBase64Url(signature), fromBase64Url(readToken))
+  } catch {
+    return false
+  }
+}
+
+/** Nycklarna som en sträng för överlämnings-QR-koden. */
+export function encodeMatchKeys(keys: MatchKeys): string {
+  return toBase64Url(new TextEncoder().encode(JSON.stringify(keys)))
+}
+
+export function decodeMatchKeys(text: string): MatchKeys | null {
+  try {
+    return parseMatchKeys(JSON.parse(new TextDecoder().decode(fromBase64Url(text))))
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Matchlogg – matchen lagras som en lista av händelser (boll för boll) och
+ * aktuell ställning härleds genom att spela upp listan från matchstart.
+ * Det gör ångra/gör om exakt: server och poäng blir alltid som innan.
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import { awardGame, chooseServer, getGameWinner, getMatchSituation, scorePoint, switchEnds } from './match-rules'
+import { switchCourts } from './service'
+
+export type MatchEvent =
+  /** Bollen vunnen av spelaren. */
+  | { type: 'point'; player: ServerPlayer; at: number }
+  /** Gamet tilldelat spelaren – läggs alltid till direkt efter den avgörande bollen. */
+  | { type: 'game'; player: ServerPlayer; at: number }
+  /** Servern korrigerad för hand. from = servern före korrigeringen (saknas i äldre loggar). */
+  | { type: 'server'; player: ServerPlayer; from?: ServerPlayer; at: number }
+  /** Spelarna har bytt sida för hand (utöver de automatiska sidbytena). */
+  | { type: 'ends'; at: number }
+  /** Dubbel: sidans spelare har bytt serveruta (korrigering av uppställningen). */
+  | { type: 'court'; side: ServerPlayer; at: number }
+
+/**
+ * Ställningen när loggen började. Matcher som sparades innan loggen fanns har
+ * ställning men ingen logg – den spelas då upp härifrån i stället för från 0-0.
+ */
+export type LogStart = Pick<
+  ScoreboardState,
+  | 'score1'
+  | 'score2'
+  | 'set1'
+  | 'set2'
+  | 'games'
+  | 'serverAtStart'
+  | 'currentServer'
+  | 'ends'
+  | 'rightCourt1'
+  | 'rightCourt2'
+  | 'gameStartedAt'
+  | 'matchStartedAt'
+>
+
+/** Om loggen täcker hela matchen – annars kan varken game eller bollsviter härledas ur den. */
+export function hasFullLog(state: ScoreboardState): boolean {
+  return state.logStart === null
+}
+
+/** Aktuell ställning som utgångsläge för en logg som börjar nu. */
+export function getLogStart(state: ScoreboardState): LogStart {
+  const { score1, score2, set1, set2, games, serverAtStart, currentServer, ends, rightCourt1, rightCourt2 } = state
+  const { gameStartedAt, matchStartedAt } = state
+  return {
+    score1,
+    score2,
+    set1,
+    set2,
+    games,
+    serverAtStart,
+    currentServer,
+    ends,
+    rightCourt1,
+    rightCourt2,
+    gameStartedAt,
+    matchStartedAt,
+  }
+}
+
+function reduceEvent(state: ScoreboardState, event: MatchEvent): ScoreboardState {
+  switch (event.type) {
+    case 'point':
+      return scorePoint(state, event.player, event.at)
+    case 'game':
+      return awardGame(state, event.player, event.at)
+    case 'server':
+      return chooseServer(state, event.player)
+    case 'ends':
+      return switchEnds(state)
+    case 'court':
+      return switchCourts(state, event.side)
+  }
+}
+
+/** Tillämpar händelsen och härleder matchläget (gamepoäng, deuce …) för den nya ställningen. */
+export function applyEvent(state: ScoreboardState, event: MatchEvent): ScoreboardState {
+  const next = reduceEvent(state, event)
+  return { ...next, situation: getMatchSituation(next) }
+}
+
+/** Spelar upp händelserna från ett utgångsläge och returnerar ställningen med loggen. */
+export function replayEvents(initial: ScoreboardState, events: MatchEvent[]): ScoreboardState {
+  return { ...events.reduce(applyEvent, initial), events }
+}
+
+/**
+ * Servern innan loggen började. Serverval före första bollen ändrar även
+ * serverAtStart, så den första korrigeringens from används när den finns –
+ * annars går ett ångrat serverval inte tillbaka till servern före valet.
+ */
+function getServerBeforeLog(state: ScoreboardState): ServerPlayer {
+  for (const event of state.events) {
+    if (event.type === 'point' || event.type === 'game') break
+    if (event.type === 'server') return event.from ?? state.serverAtStart
+  }
+  return state.serverAtStart
+}
+
+/**
+ * Utgångsläget före första händelsen: server som vid matchstart, 0-0, inga
+ * set, sida 1 till vänster och grunduppställning i dubbel – eller logStart
+ * om loggen inte börjar vid 0-0.
+ */
+export function getInitialState(state: ScoreboardState): ScoreboardState {
+  const serverAtStart = getServerBeforeLog(state)
+  const initial: ScoreboardState = {
+    ...state,
+    rightCourt1: 0,
+    rightCourt2: 0,
+    score1: 0,
+    score2: 0,
+    set1: 0,
+    set2: 0,
+    games: [],
+    gameStartedAt: null,
+    matchStartedAt: null,
+    matchEndedAt: null,
+    interval: null,
+    ends: 1,
+    serverAtStart,
+    currentServer: serverAtStart,
+    events: [],
+    ...state.logStart,
+  }
+  return { ...initial, situation: getMatchSituation(initial) }
+}
+
+function appendEvents(state: ScoreboardState, events: MatchEvent[]): ScoreboardState {
+  return { ...events.reduce(applyEvent, state), events: [...state.events, ...events] }
+}
+
+/** Registrerar en vunnen boll, och gamet om bollen avgör det. */
+export function recordRally(state: ScoreboardState, winner: ServerPlayer): ScoreboardState {
+  const at = Date.now()
+  const afterPoint = scorePoint(state, winner, at)
+  if (afterPoint === state) return state
+  const events: MatchEvent[] = [{ type: 'point', player: winner, at }]
+  const gameWinner = getGameWinner(afterPoint.score1, afterPoint.score2, afterPoint.format)
+  if (gameWinner) events.push({ type: 'game', player: gameWinner, at })
+  return appendEvents(state, events)
+}
+
+export function recordServerCorrection(state: ScoreboardState, player: ServerPlayer): ScoreboardState {
+  return appendEvents(state, [{ type: 'server', player, from: state.currentServer, at: Date.now() }])
+}
+
+export function recordEndsChange(state: ScoreboardState): ScoreboardState {
+  return appendEvents(state, [{ type: 'ends', at: Date.now() }])
+}
+
+export function recordCourtSwitch(state: ScoreboardState, side: ServerPlayer): ScoreboardState {
+  return appendEvents(state, [{ type: 'court', side, at: Date.now() }])
+}
+
+/**
+ * Ångrar senaste åtgärden. En game-händelse ångras tillsammans med bollen
+ * som avgjorde gamet. Returnerar nytt state och de borttagna händelserna
+ * (för gör om), eller null om loggen är tom.
+ */
+export function undoLastAction(
+  state: ScoreboardState
+): { state: ScoreboardState; undone: MatchEvent[] } | null {
+  const { events } = state
+  if (events.length === 0) return null
+  let cut = events.length - 1
+  if (events[cut].type === 'game' && cut > 0) cut -= 1
+  const undone = events.slice(cut)
+  return { state: replayEvents(getInitialState(state), events.slice(0, cut)), undone }
+}
+
+/** Gör om händelser som tidigare ångrats. */
+export function redoAction(state: ScoreboardState, undone: MatchEvent[]): ScoreboardState {
+  return appendEvents(state, undone)
+}
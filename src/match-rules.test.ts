@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest'
+import type { ScoreboardState, ServerPlayer } from './App'
+import type { MatchFormat } from './match-format'
+import { DEFAULT_MATCH_FORMAT } from './match-format'
+import { EMPTY_STATE } from './match-storage'
+import { applyRally, getGameWinner, getMatchSituation, getMatchWinner, scorePoint } from './match-rules'
+
+const SIDEOUT_15: MatchFormat = { pointsToWin: 15, maxPoints: 17, gamesToWin: 2, scoring: 'sideout' }
+
+function match(overrides: Partial<ScoreboardState> = {}): ScoreboardState {
+  return { ...EMPTY_STATE, name1: 'Anna', name2: 'Bo', ...overrides }
+}
+
+function rallies(state: ScoreboardState, winners: ServerPlayer[]): ScoreboardState {
+  return winners.reduce((s, winner, i) => applyRally(s, winner, i * 1000), state)
+}
+
+describe('getGameWinner', () => {
+  it('kräver vinstgränsen och två poängs marginal', () => {
+    expect(getGameWinner(21, 19, DEFAULT_MATCH_FORMAT)).toBe(1)
+    expect(getGameWinner(20, 19, DEFAULT_MATCH_FORMAT)).toBeNull()
+    expect(getGameWinner(21, 20, DEFAULT_MATCH_FORMAT)).toBeNull()
+    expect(getGameWinner(22, 24, DEFAULT_MATCH_FORMAT)).toBe(2)
+  })
+
+  it('ger gamet till den som når taket oavsett marginal', () => {
+    expect(getGameWinner(29, 29, DEFAULT_MATCH_FORMAT)).toBeNull()
+    expect(getGameWinner(30, 29, DEFAULT_MATCH_FORMAT)).toBe(1)
+    expect(getGameWinner(16, 17, SIDEOUT_15)).toBe(2)
+  })
+})
+
+describe('applyRally', () => {
+  it('ger vinnaren poängen och serven', () => {
+    const next = applyRally(match(), 2, 0)
+    expect([next.score1, next.score2]).toEqual([0, 1])
+    expect(next.currentServer).toBe(2)
+  })
+
+  it('startar pausen när ledande sida når 11', () => {
+    const next = rallies(match(), Array(11).fill(1))
+    expect(next.interval).toMatchObject({ kind: 'interval', changeEnds: false })
+    expect(applyRally(next, 2, 20_000).interval).toBeNull()
+  })
+
+  it('avslutar gamet, nollställer poängen och byter sida', () => {
+    const next = rallies(match(), Array(21).fill(1))
+    expect([next.score1, next.score2, next.set1, next.set2]).toEqual([0, 0, 1, 0])
+    expect(next.games).toHaveLength(1)
+    expect(next.games[0]).toMatchObject({ score1: 21, score2: 0 })
+    expect(next.ends).toBe(2)
+    expect(next.interval).toMatchObject({ kind: 'break', changeEnds: true })
+  })
+
+  it('byter sida vid pauspoängen i avgörande game', () => {
+    const deciding = match({ set1: 1, set2: 1, ends: 1 })
+    const next = rallies(deciding, Array(11).fill(2))
+    expect(next.interval).toMatchObject({ kind: 'interval', changeEnds: true })
+    expect(next.ends).toBe(2)
+  })
+
+  it('avgör matchen och behåller slutställningen', () => {
+    const next = rallies(match({ set1: 1, score1: 20, score2: 5 }), [1])
+    expect(getMatchWinner(next)).toBe(1)
+    expect([next.score1, next.score2]).toEqual([21, 5])
+    expect(next.matchEndedAt).not.toBeNull()
+    expect(applyRally(next, 2, 99_000)).toBe(next)
+  })
+
+  it('ger bara serven när mottagaren vinner bollen med side-out-poäng', () => {
+    const next = scorePoint(match({ format: SIDEOUT_15, currentServer: 1 }), 2, 0)
+    expect([next.score1, next.score2]).toEqual([0, 0])
+    expect(next.currentServer).toBe(2)
+  })
+})
+
+describe('getMatchSituation', () => {
+  it('visar gamepoäng och matchpoäng', () => {
+    expect(getMatchSituation(match({ score1: 20, score2: 18 }))).toMatchObject({ gamePoint: [1], matchPoint: [] })
+    expect(getMatchSituation(match({ score1: 20, score2: 18, set1: 1 }))).toMatchObject({ matchPoint: [1] })
+  })
+
+  it('skiljer deuce från avgörande boll vid taket', () => {
+    expect(getMatchSituation(match({ score1: 20, score2: 20 }))).toMatchObject({ deuce: true, gamePoint: [] })
+    expect(getMatchSituation(match({ score1: 29, score2: 29 }))).toMatchObject({
+      deuce: false,
+      decidingPoint: true,
+      gamePoint: [1, 2],
+    })
+  })
+
+  it('ger bara servande sida gamepoäng med side-out-poäng', () => {
+    const state = match({ format: SIDEOUT_15, score1: 14, score2: 13 })
+    expect(getMatchSituation({ ...state, currentServer: 1 }).gamePoint).toEqual([1])
+    expect(getMatchSituation({ ...state, currentServer: 2 }).gamePoint).toEqual([])
+  })
+})
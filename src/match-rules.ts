@@ -0,0 +1,244 @@
+/**
+ * BWF-regler för poängräkning: avgör när ett game och en match är vunnen.
+ * Rena funktioner – tar ett ScoreboardState och returnerar ett nytt.
+ * Poänggränser och poängsystem styrs av matchens format.
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import type { MatchFormat } from './match-format'
+import { opponentOf, switchCourts } from './service'
+
+/** Slutställning i ett avslutat game. */
+export interface GameScore {
+  score1: number
+  score2: number
+  /** Speltid från första bollen till avgörande boll, i millisekunder. */
+  durationMs: number
+}
+
+/** Returnerar vinnaren av pågående game, eller null om det inte är avgjort. */
+export function getGameWinner(score1: number, score2: number, format: MatchFormat): ServerPlayer | null {
+  const leader: ServerPlayer = score1 > score2 ? 1 : 2
+  const high = Math.max(score1, score2)
+  const low = Math.min(score1, score2)
+  if (high >= format.maxPoints) return leader
+  if (high >= format.pointsToWin && high - low >= 2) return leader
+  return null
+}
+
+/** Paus när ledande sida når pauspoängen (60 s) och mellan game (120 s). */
+export const INTERVAL_MS = 60000
+export const GAME_BREAK_MS = 120000
+
+/** Pågående paus – startas automatiskt och avslutas av nästa boll. */
+export interface MatchInterval {
+  /** interval = paus mitt i gamet, break = paus mellan game. */
+  kind: 'interval' | 'break'
+  startedAt: number
+  durationMs: number
+  /** Spelarna byter sida i pausen – efter varje game och vid pauspoängen i avgörande game. */
+  changeEnds: boolean
+}
+
+/** Poängen där gamet har paus – när ledande sida når 11 i ett game till 21. */
+export function getIntervalPoint(format: MatchFormat): number {
+  return Math.ceil(format.pointsToWin / 2)
+}
+
+/** Återstående paustid i millisekunder, 0 när pausen är slut. */
+export function getIntervalRemaining(interval: MatchInterval, now: number): number {
+  return Math.max(0, interval.startedAt + interval.durationMs - now)
+}
+
+/** Speltid från matchens första boll till avgörande boll, eller till now om matchen pågår. */
+export function getMatchDuration(state: ScoreboardState, now: number): number | null {
+  if (state.matchStartedAt === null) return null
+  return Math.max(0, (state.matchEndedAt ?? now) - state.matchStartedAt)
+}
+
+/** Returnerar matchvinnaren, eller null om matchen pågår. */
+export function getMatchWinner(state: ScoreboardState): ServerPlayer | null {
+  if (state.set1 >= state.format.gamesToWin) return 1
+  if (state.set2 >= state.format.gamesToWin) return 2
+  return null
+}
+
+export function isMatchOver(state: ScoreboardState): boolean {
+  return getMatchWinner(state) !== null
+}
+
+/** Avgörande game – båda sidor behöver bara ett game till, t.ex. tredje gamet vid 1–1. */
+export function isDecidingGame(state: ScoreboardState): boolean {
+  const needed = state.format.gamesToWin - 1
+  return state.set1 === needed && state.set2 === needed
+}
+
+/**
+ * Gamepoäng: sidan vinner gamet om den vinner nästa boll. Med side-out-poäng
+ * kan bara servande sida få poäng, så mottagaren har aldrig gamepoäng.
+ */
+export function isGamePoint(state: ScoreboardState, side: ServerPlayer): boolean {
+  if (isMatchOver(state)) return false
+  if (state.format.scoring === 'sideout' && side !== state.currentServer) return false
+  const score1 = state.score1 + (side === 1 ? 1 : 0)
+  const score2 = state.score2 + (side === 2 ? 1 : 0)
+  return getGameWinner(score1, score2, state.format) === side
+}
+
+/** Matchpoäng: gamepoäng där gamet även avgör matchen. */
+export function isMatchPoint(state: ScoreboardState, side: ServerPlayer): boolean {
+  const games = side === 1 ? state.set1 : state.set2
+  return isGamePoint(state, side) && games + 1 >= state.format.gamesToWin
+}
+
+/** Lägen där nästa boll är särskild – härleds ur ställning och format och synkas med matchen. */
+export interface MatchSituation {
+  /** Sidor som vinner gamet om de vinner nästa boll – båda vid t.ex. 29–29. */
+  gamePoint: ServerPlayer[]
+  /** Sidor vars gamepoäng även avgör matchen. */
+  matchPoint: ServerPlayer[]
+  /** Lika på minst 20–20 – gamet kräver två poängs marginal. */
+  deuce: boolean
+  /** Lika en poäng under taket, t.ex. 29–29 – nästa boll avgör gamet. */
+  decidingPoint: boolean
+  /** Nästa poäng kan ge pausen vid pauspoängen. */
+  intervalDue: boolean
+}
+
+export const NO_SITUATION: MatchSituation = {
+  gamePoint: [],
+  matchPoint: [],
+  deuce: false,
+  decidingPoint: false,
+  intervalDue: false,
+}
+
+export function getMatchSituation(state: ScoreboardState): MatchSituation {
+  if (isMatchOver(state)) return NO_SITUATION
+  const { score1, score2, format } = state
+  const sides: ServerPlayer[] = [1, 2]
+  const tied = score1 === score2
+  const decidingPoint = tied && format.maxPoints > 1 && score1 === format.maxPoints - 1
+  // Pausen kommer när ledande sida når pauspoängen – med side-out-poäng bara om den servar
+  const intervalPoint = getIntervalPoint(format)
+  const reachesInterval = (side: ServerPlayer) =>
+    (format.scoring === 'rally' || side === state.currentServer) &&
+    (side === 1 ? score1 : score2) === intervalPoint - 1
+  return {
+    gamePoint: sides.filter((side) => isGamePoint(state, side)),
+    matchPoint: sides.filter((side) => isMatchPoint(state, side)),
+    deuce: tied && !decidingPoint && score1 > 0 && score1 >= format.pointsToWin - 1,
+    decidingPoint,
+    intervalDue: Math.max(score1, score2) < intervalPoint && sides.some(reachesInterval),
+  }
+}
+
+/**
+ * Registrerar poängen för en vunnen boll utan att avgöra gamet.
+ * Vinnaren får poängen och servar nästa boll. Med side-out-poäng ger en
+ * boll vunnen av mottagaren bara serven. I dubbel byter den servande sidans
+ * spelare ruta när de vinner bollen; mottagande sida står kvar.
+ * Bollen avslutar en pågående paus, och når ledande sida pauspoängen startar pausen –
+ * i avgörande game byter spelarna då även sida.
+ */
+export function scorePoint(state: ScoreboardState, winner: ServerPlayer, at: number): ScoreboardState {
+  if (isMatchOver(state)) return state
+  const started = {
+    gameStartedAt: state.gameStartedAt ?? at,
+    matchStartedAt: state.matchStartedAt ?? at,
+    interval: null,
+  }
+  if (state.format.scoring === 'sideout' && winner !== state.currentServer) {
+    return { ...state, ...started, currentServer: winner }
+  }
+  const next: ScoreboardState = {
+    ...state,
+    ...started,
+    score1: state.score1 + (winner === 1 ? 1 : 0),
+    score2: state.score2 + (winner === 2 ? 1 : 0),
+    currentServer: winner,
+  }
+  const intervalPoint = getIntervalPoint(state.format)
+  if (Math.max(state.score1, state.score2) < intervalPoint && Math.max(next.score1, next.score2) >= intervalPoint) {
+    const changeEnds = isDecidingGame(state)
+    next.interval = { kind: 'interval', startedAt: at, durationMs: INTERVAL_MS, changeEnds }
+    if (changeEnds) next.ends = opponentOf(state.ends)
+  }
+  return state.doubles && winner === state.currentServer ? switchCourts(next, winner) : next
+}
+
+/**
+ * Tilldelar gamet till vinnaren och sparar gamets slutställning. Poängen
+ * nollställs inför nästa game och vinnaren servar först från höger ruta;
+ * i dubbel återställs uppställningen och kan korrigeras med rutbyte.
+ * Pausen mellan game startar och spelarna byter sida. Avgörs matchen behålls
+ * slutställningen och sluttiden sparas.
+ */
+export function awardGame(state: ScoreboardState, winner: ServerPlayer, at: number): ScoreboardState {
+  const game: GameScore = {
+    score1: state.score1,
+    score2: state.score2,
+    durationMs: Math.max(0, at - (state.gameStartedAt ?? at)),
+  }
+  const withSets: ScoreboardState = {
+    ...state,
+    set1: state.set1 + (winner === 1 ? 1 : 0),
+    set2: state.set2 + (winner === 2 ? 1 : 0),
+    currentServer: winner,
+    games: [...state.games, game],
+    gameStartedAt: null,
+  }
+  if (isMatchOver(withSets)) return { ...withSets, interval: null, matchEndedAt: at }
+  return {
+    ...withSets,
+    score1: 0,
+    score2: 0,
+    rightCourt1: 0,
+    rightCourt2: 0,
+    ends: opponentOf(state.ends),
+    interval: { kind: 'break', startedAt: at, durationMs: GAME_BREAK_MS, changeEnds: true },
+  }
+}
+
+/** Registrerar en vunnen boll och tilldelar gamet om det blir avgjort. */
+export function applyRally(state: ScoreboardState, winner: ServerPlayer, at: number): ScoreboardState {
+  const next = scorePoint(state, winner, at)
+  if (next === state) return state
+  const gameWinner = getGameWinner(next.score1, next.score2, next.format)
+  return gameWinner ? awardGame(next, gameWinner, at) : next
+}
+
+/** Spelarna byter sida. Bara planhalvorna byts – poäng, game och server följer spelarna. */
+export function switchEnds(state: ScoreboardState): ScoreboardState {
+  return { ...state, ends: opponentOf(state.ends) }
+}
+
+/**
+ * Väljer server. Före första bollen i matchen sätts även vem som började serva –
+ * även en boll utan poäng (side-out) räknas, den har startat matchen.
+ */
+export function chooseServer(state: ScoreboardState, player: ServerPlayer): ScoreboardState {
+  const isMatchStart = state.matchStartedAt === null && state.score1 + state.score2 + state.set1 + state.set2 === 0
+  return {
+    ...state,
+    currentServer: player,
+    serverAtStart: isMatchStart ? player : state.serverAtStart,
+  }
+}
+
+/** Tolkar sparade game-resultat från lagrad/synkad data. */
+export function parseGameScores(data: unknown): GameScore[] {
+  if (!data || typeof data !== 'object') return []
+  // Firebase kan returnera listor som objekt med numeriska nycklar
+  const items = Array.isArray(data) ? data : Object.values(data)
+  const games: GameScore[] = []
+  for (const item of items) {
+    if (!item || typeof item !== 'object') continue
+    const d = item as Record<string, unknown>
+    games.push({
+      score1: Number(d.score1) || 0,
+      score2: Number(d.score2) || 0,
+      durationMs: Number(d.durationMs) || 0,
+    })
+  }
+  return games
+}
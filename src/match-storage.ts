@@ -0,0 +1,120 @@
+/**
+ * Lokal lagring av matcher i localStorage – en post per match under
+ * badminton-match-<id>, plus id för pågående match på poängräknaren.
+ */
+import type { ScoreboardState } from './App'
+import { parseMatchStateJson, serializeMatchState } from './match-codec'
+import { DEFAULT_MATCH_FORMAT } from './match-format'
+import { NO_SITUATION } from './match-rules'
+
+/** Utgångsläge för en ny match. */
+export const EMPTY_STATE: ScoreboardState = {
+  name1: '',
+  name2: '',
+  doubles: false,
+  partner1: '',
+  partner2: '',
+  player1Id: null,
+  player2Id: null,
+  partner1Id: null,
+  partner2Id: null,
+  rightCourt1: 0,
+  rightCourt2: 0,
+  score1: 0,
+  score2: 0,
+  set1: 0,
+  set2: 0,
+  games: [],
+  gameStartedAt: null,
+  matchStartedAt: null,
+  matchEndedAt: null,
+  interval: null,
+  situation: NO_SITUATION,
+  ends: 1,
+  createdAt: null,
+  serverAtStart: 1,
+  currentServer: 1,
+  format: DEFAULT_MATCH_FORMAT,
+  events: [],
+  logStart: null,
+  version: 0,
+  updatedAt: null,
+}
+
+/** Om state innehåller något att visa – namn, poäng eller game – och inte bara är utgångsläget. */
+export function hasMatchData(state: ScoreboardState): boolean {
+  return (
+    state.name1 !== '' ||
+    state.name2 !== '' ||
+    state.score1 !== 0 ||
+    state.score2 !== 0 ||
+    state.set1 !== 0 ||
+    state.set2 !== 0
+  )
+}
+
+export const MATCH_ID_STORAGE_KEY = 'badminton-current-match-id'
+
+export function generateMatchId(): string {
+  return crypto.randomUUID?.() ?? `match-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+const MATCH_ID_PATTERN = /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}|match-\d+-[0-9a-z]+)$/
+
+/** Om id har formen från generateMatchId – andra poster under matchprefixet är inga matcher. */
+export function isMatchId(id: string): boolean {
+  return MATCH_ID_PATTERN.test(id)
+}
+
+export function getMatchStorageKey(matchId: string): string {
+  return `badminton-match-${matchId}`
+}
+
+export function loadMatchState(matchId: string): ScoreboardState | null {
+  try {
+    return parseMatchStateJson(localStorage.getItem(getMatchStorageKey(matchId)))
+  } catch {
+    return null
+  }
+}
+
+export function saveMatchState(matchId: string, state: ScoreboardState): void {
+  localStorage.setItem(getMatchStorageKey(matchId), serializeMatchState(state))
+}
+
+export function deleteMatchState(matchId: string): void {
+  localStorage.removeItem(getMatchStorageKey(matchId))
+  if (localStorage.getItem(MATCH_ID_STORAGE_KEY) === matchId) {
+    localStorage.removeItem(MATCH_ID_STORAGE_KEY)
+  }
+}
+
+export interface StoredMatch {
+  id: string
+  state: ScoreboardState
+}
+
+const MATCH_KEY_PREFIX = getMatchStorageKey('')
+
+/** Tidpunkt då matchen startade – createdAt, annars första händelsen i loggen. */
+export function getMatchStartTime(state: ScoreboardState): number | null {
+  return state.createdAt ?? state.events[0]?.at ?? null
+}
+
+/** Alla matcher i localStorage, senast startade först. */
+export function listStoredMatches(): StoredMatch[] {
+  const matches: StoredMatch[] = []
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (!key || !key.startsWith(MATCH_KEY_PREFIX)) continue
+      const id = key.slice(MATCH_KEY_PREFIX.length)
+      if (!isMatchId(id)) continue
+      const state = loadMatchState(id)
+      if (state) matches.push({ id, state })
+    }
+  } catch {
+    // ignore
+  }
+  return matches.sort((a, b) => (getMatchStartTime(b.state) ?? 0) - (getMatchStartTime(a.state) ?? 0))
+}
@@ -0,0 +1,78 @@
+/**
+ * Matchsammanfattning i textform – för kopiering och nedladdning.
+ */
+import type { ScoreboardState } from './App'
+import { getDateLocale, getMessages } from './i18n'
+import { describeMatchFormat } from './match-format'
+import { getMatchDuration } from './match-rules'
+import { getTeamName } from './service'
+
+export function getMatchSummary(state: ScoreboardState): string {
+  const { score1, score2, set1, set2, serverAtStart, format } = state
+  const date = state.createdAt ? new Date(state.createdAt) : new Date()
+  const m = getMessages()
+  const dateStr = date.toLocaleDateString(getDateLocale(), {
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+  const p1 = getTeamName(state, 1)
+  const p2 = getTeamName(state, 2)
+  const setWinner = set1 > set2 ? p1 : set2 > set1 ? p2 : null
+  const pointWinner = score1 > score2 ? p1 : score2 > score1 ? p2 : null
+  const startedServing = serverAtStart === 1 ? p1 : p2
+  // Set- och poängraden ställs upp under varandra oavsett språk
+  const column = Math.max(m.summary.sets.length, m.summary.points.length) + 2
+  let text = `🏸 ${m.summary.heading}\n`
+  text += `${'═'.repeat(40)}\n\n`
+  text += `${m.summary.date}: ${dateStr}\n`
+  text += `${m.summary.format}: ${describeMatchFormat(format)}${state.doubles ? ` · ${m.common.doubles}` : ''}\n\n`
+  text += `${`${m.summary.sets}:`.padEnd(column)}${p1}  ${set1} – ${set2}  ${p2}\n`
+  state.games.forEach((game, i) => {
+    text += `  ${m.summary.game(i + 1)}: ${game.score1} – ${game.score2}  (${formatDuration(game.durationMs)})\n`
+  })
+  text += `${`${m.summary.points}:`.padEnd(column)}${p1}  ${score1} – ${score2}  ${p2}\n`
+  const duration = getMatchDuration(state, Date.now())
+  if (duration !== null) {
+    text += `${m.summary.matchTime}: ${formatDuration(duration)}${state.matchEndedAt ? '' : ` ${m.summary.ongoing}`}\n`
+  }
+  text += `${m.summary.serverAtStart}: ${startedServing}\n\n`
+  if (setWinner) {
+    text += `${m.summary.matchWinner}: ${setWinner}\n`
+  }
+  if (pointWinner && pointWinner !== setWinner) {
+    text += `${m.summary.lastSet}: ${pointWinner}\n`
+  }
+  if (!setWinner && !pointWinner) {
+    text += `${m.summary.draw}\n`
+  }
+  text += `\n${'═'.repeat(40)}\n`
+  return text
+}
+
+/** Speltid som m:ss, t.ex. "18:04". */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`
+}
+
+/** Laddar ner innehållet som badminton_<datum>_<id>.<extension>. */
+export function downloadFile(content: string, extension: string, type: string): void {
+  const blob = new Blob([content], { type })
+  const date = new Date()
+  const filename = `badminton_${date.toISOString().slice(0, 10)}_${Date.now().toString(36)}.${extension}`
+  const a = document.createElement('a')
+  a.href = URL.createObjectURL(blob)
+  a.download = filename
+  a.click()
+  URL.revokeObjectURL(a.href)
+}
+
+export function downloadMatch(summary: string): void {
+  downloadFile(summary, 'txt', 'text/plain;charset=utf-8')
+}
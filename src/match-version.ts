@@ -0,0 +1,32 @@
+/**
+ * Versionering av matchstate för synk. Varje ändring på poängräknaren ökar
+ * versionen och sätter updatedAt; äldre uppdateringar avvisas så att en
+ * poängräknare med gammal data inte kan skriva över nyare.
+ */
+import type { ScoreboardState } from './App'
+
+/** Markerar next som en ny version av prev. */
+export function bumpVersion(prev: ScoreboardState, next: ScoreboardState, at: number): ScoreboardState {
+  return { ...next, version: prev.version + 1, updatedAt: at }
+}
+
+/**
+ * Om incoming är äldre än current: lägre version, eller samma version men
+ * tidigare uppdaterad (två poängräknare som ändrat samtidigt – senaste vinner).
+ */
+export function isStaleState(
+  incoming: Pick<ScoreboardState, 'version' | 'updatedAt'>,
+  current: Pick<ScoreboardState, 'version' | 'updatedAt'>
+): boolean {
+  if (incoming.version !== current.version) return incoming.version < current.version
+  return (incoming.updatedAt ?? 0) < (current.updatedAt ?? 0)
+}
+
+/** Om incoming är en nyare version än current – inte äldre och inte samma uppdatering. */
+export function isNewerState(
+  incoming: Pick<ScoreboardState, 'version' | 'updatedAt'>,
+  current: Pick<ScoreboardState, 'version' | 'updatedAt'>
+): boolean {
+  if (isStaleState(incoming, current)) return false
+  return incoming.version !== current.version || incoming.updatedAt !== current.updatedAt
+}
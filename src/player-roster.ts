@@ -0,0 +1,119 @@
+/**
+ * Spelarregister – spelare sparade lokalt i localStorage. Matcher refererar
+ * till spelarnas id så att historik och statistik hänger ihop mellan matcher
+ * även om ett namn skrivs lite olika.
+ */
+import type { ScoreboardState } from './App'
+
+export type Handedness = 'right' | 'left'
+
+export interface Player {
+  id: string
+  name: string
+  club: string
+  handedness: Handedness | null
+  /** Spelarens färg, t.ex. "#f59e0b". */
+  color: string | null
+  /** Porträtt som data-URL (nedskalat). */
+  photo: string | null
+}
+
+/** Namnfälten i ScoreboardState som kan kopplas till en spelare i registret. */
+export type PlayerSlot = 'name1' | 'name2' | 'partner1' | 'partner2'
+
+const PLAYER_ID_FIELDS = {
+  name1: 'player1Id',
+  name2: 'player2Id',
+  partner1: 'partner1Id',
+  partner2: 'partner2Id',
+} as const
+
+export const PLAYER_SLOTS: PlayerSlot[] = ['name1', 'name2', 'partner1', 'partner2']
+
+const PLAYERS_STORAGE_KEY = 'badminton-players'
+
+function generatePlayerId(): string {
+  return crypto.randomUUID?.() ?? `player-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+function parsePlayer(data: unknown): Player | null {
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (typeof d.id !== 'string' || typeof d.name !== 'string') return null
+  return {
+    id: d.id,
+    name: d.name,
+    club: typeof d.club === 'string' ? d.club : '',
+    handedness: d.handedness === 'right' || d.handedness === 'left' ? d.handedness : null,
+    color: typeof d.color === 'string' ? d.color : null,
+    photo: typeof d.photo === 'string' ? d.photo : null,
+  }
+}
+
+export function loadPlayers(): Player[] {
+  try {
+    const raw = localStorage.getItem(PLAYERS_STORAGE_KEY)
+    if (!raw) return []
+    const data: unknown = JSON.parse(raw)
+    if (!Array.isArray(data)) return []
+    return data.map(parsePlayer).filter((p): p is Player => p !== null)
+  } catch {
+    return []
+  }
+}
+
+export function savePlayers(players: Player[]): void {
+  localStorage.setItem(PLAYERS_STORAGE_KEY, JSON.stringify(players))
+}
+
+export function createPlayer(name: string): Player {
+  return { id: generatePlayerId(), name: name.trim(), club: '', handedness: null, color: null, photo: null }
+}
+
+/** Lägger till eller ersätter en spelare (matchas på id). */
+export function upsertPlayer(players: Player[], player: Player): Player[] {
+  const exists = players.some((p) => p.id === player.id)
+  const next = exists ? players.map((p) => (p.id === player.id ? player : p)) : [...players, player]
+  return next.sort((a, b) => a.name.localeCompare(b.name, 'sv'))
+}
+
+export function removePlayer(players: Player[], id: string): Player[] {
+  return players.filter((p) => p.id !== id)
+}
+
+export function getPlayer(players: Player[], id: string | null): Player | null {
+  if (!id) return null
+  return players.find((p) => p.id === id) ?? null
+}
+
+/** Spelare med exakt detta namn (skiftlägesokänsligt), eller null. */
+export function findPlayerByName(players: Player[], name: string): Player | null {
+  const q = name.trim().toLowerCase()
+  if (!q) return null
+  return players.find((p) => p.name.toLowerCase() === q) ?? null
+}
+
+export function getPlayerId(state: ScoreboardState, slot: PlayerSlot): string | null {
+  return state[PLAYER_ID_FIELDS[slot]]
+}
+
+/** Sätter namnet i ett fält och kopplar det till registret om namnet finns där. */
+export function setPlayerName(
+  state: ScoreboardState,
+  slot: PlayerSlot,
+  name: string,
+  players: Player[]
+): ScoreboardState {
+  const player = findPlayerByName(players, name)
+  return { ...state, [slot]: player ? player.name : name, [PLAYER_ID_FIELDS[slot]]: player?.id ?? null }
+}
+
+/** Kopplar fältet till en spelare, t.ex. en nyss registrerad. */
+export function assignPlayer(state: ScoreboardState, slot: PlayerSlot, player: Player): ScoreboardState {
+  return { ...state, [slot]: player.name, [PLAYER_ID_FIELDS[slot]]: player.id }
+}
+
+/** Läser ett spelar-id från lagrad/synkad data. */
+export function parsePlayerId(value: unknown): string | null {
+  return typeof value === 'string' && value !== '' ? value : null
+}
@@ -0,0 +1,168 @@
+/**
+ * Spelarstatistik och inbördes möten, beräknade ur sparade matcher.
+ * Rena funktioner utan sidoeffekter – tar en lista matcher och returnerar siffror.
+ * Spelare identifieras med id i spelarregistret, eller med namnet för fritext.
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import type { StoredMatch } from './match-storage'
+import { hasFullLog } from './match-log'
+import { getMatchWinner, type GameScore } from './match-rules'
+import { getPlayerId, type PlayerSlot } from './player-roster'
+
+export interface PlayerStats {
+  /** Spelar-id, eller "name:<namn>" för spelare som inte finns i registret. */
+  key: string
+  name: string
+  matches: number
+  wins: number
+  losses: number
+  gamesWon: number
+  gamesLost: number
+  /** Poäng i avslutade games. */
+  pointsScored: number
+  deuceGamesPlayed: number
+  deuceGamesWon: number
+  /** Flest bollar i rad vunna av spelarens sida i en match. */
+  longestStreak: number
+}
+
+export interface HeadToHead {
+  matches: number
+  wins1: number
+  wins2: number
+  games1: number
+  games2: number
+}
+
+interface Participant {
+  key: string
+  name: string
+}
+
+function getParticipant(state: ScoreboardState, slot: PlayerSlot): Participant | null {
+  const name = state[slot].trim()
+  const id = getPlayerId(state, slot)
+  if (id) return { key: id, name: name || id }
+  if (!name) return null
+  return { key: `name:${name.toLowerCase()}`, name }
+}
+
+/** Spelarna på en sida – en i singel, två i dubbel. */
+export function getSideParticipants(state: ScoreboardState, side: ServerPlayer): Participant[] {
+  const slots: PlayerSlot[] = side === 1 ? ['name1', 'partner1'] : ['name2', 'partner2']
+  const used = state.doubles ? slots : slots.slice(0, 1)
+  return used.map((slot) => getParticipant(state, slot)).filter((p): p is Participant => p !== null)
+}
+
+function sidePoints(game: GameScore, side: ServerPlayer): number {
+  return side === 1 ? game.score1 : game.score2
+}
+
+function gameWinnerOf(game: GameScore): ServerPlayer {
+  return game.score1 > game.score2 ? 1 : 2
+}
+
+/** Game som gick till förlängning, dvs. båda nådde en poäng under vinstgränsen. */
+export function isDeuceGame(game: GameScore, pointsToWin: number): boolean {
+  return Math.min(game.score1, game.score2) >= pointsToWin - 1
+}
+
+/**
+ * Längsta sviten av vunna bollar för varje sida. Matcher utan fullständig logg
+ * räknas inte – en svit kan ha börjat innan loggen gjorde det.
+ */
+export function getLongestStreaks(state: ScoreboardState): Record<ServerPlayer, number> {
+  const longest: Record<ServerPlayer, number> = { 1: 0, 2: 0 }
+  if (!hasFullLog(state)) return longest
+  let current: ServerPlayer | null = null
+  let run = 0
+  for (const event of state.events) {
+    if (event.type !== 'point') continue
+    run = event.player === current ? run + 1 : 1
+    current = event.player
+    longest[current] = Math.max(longest[current], run)
+  }
+  return longest
+}
+
+function emptyStats(participant: Participant): PlayerStats {
+  return {
+    key: participant.key,
+    name: participant.name,
+    matches: 0,
+    wins: 0,
+    losses: 0,
+    gamesWon: 0,
+    gamesLost: 0,
+    pointsScored: 0,
+    deuceGamesPlayed: 0,
+    deuceGamesWon: 0,
+    longestStreak: 0,
+  }
+}
+
+/** Statistik per spelare, sorterad på flest vinster. Bara avslutade matcher räknas. */
+export function computePlayerStats(matches: StoredMatch[]): PlayerStats[] {
+  const byKey = new Map<string, PlayerStats>()
+  for (const { state } of matches) {
+    const winner = getMatchWinner(state)
+    if (!winner) continue
+    const streaks = getLongestStreaks(state)
+    for (const side of [1, 2] as const) {
+      for (const participant of getSideParticipants(state, side)) {
+        const stats = byKey.get(participant.key) ?? emptyStats(participant)
+        stats.matches += 1
+        if (winner === side) stats.wins += 1
+        else stats.losses += 1
+        for (const game of state.games) {
+          const won = gameWinnerOf(game) === side
+          if (won) stats.gamesWon += 1
+          else stats.gamesLost += 1
+          stats.pointsScored += sidePoints(game, side)
+          if (isDeuceGame(game, state.format.pointsToWin)) {
+            stats.deuceGamesPlayed += 1
+            if (won) stats.deuceGamesWon += 1
+          }
+        }
+        stats.longestStreak = Math.max(stats.longestStreak, streaks[side])
+        byKey.set(participant.key, stats)
+      }
+    }
+  }
+  return [...byKey.values()].sort((a, b) => b.wins - a.wins || a.losses - b.losses || a.name.localeCompare(b.name, 'sv'))
+}
+
+export function getAveragePointsPerGame(stats: PlayerStats): number {
+  const games = stats.gamesWon + stats.gamesLost
+  return games === 0 ? 0 : stats.pointsScored / games
+}
+
+export function getWinRate(stats: PlayerStats): number {
+  return stats.matches === 0 ? 0 : stats.wins / stats.matches
+}
+
+/** Inbördes möten – avslutade matcher där spelarna stod på olika sidor. */
+export function computeHeadToHead(matches: StoredMatch[], key1: string, key2: string): HeadToHead {
+  const result: HeadToHead = { matches: 0, wins1: 0, wins2: 0, games1: 0, games2: 0 }
+  if (key1 === key2) return result
+  for (const { state } of matches) {
+    const winner = getMatchWinner(state)
+    if (!winner) continue
+    const sideOf = (key: string): ServerPlayer | null => {
+      if (getSideParticipants(state, 1).some((p) => p.key === key)) return 1
+      if (getSideParticipants(state, 2).some((p) => p.key === key)) return 2
+      return null
+    }
+    const side1 = sideOf(key1)
+    const side2 = sideOf(key2)
+    if (!side1 || !side2 || side1 === side2) continue
+    result.matches += 1
+    if (winner === side1) result.wins1 += 1
+    else result.wins2 += 1
+    for (const game of state.games) {
+      if (gameWinnerOf(game) === side1) result.games1 += 1
+      else result.games2 += 1
+    }
+  }
+  return result
+}
@@ -0,0 +1,149 @@
+/**
+ * Domarprotokollet som PDF, ritat i webbläsaren med jsPDF på en liggande A4.
+ * Samma innehåll som HTML-versionen i score-sheet.ts.
+ */
+import { jsPDF } from 'jspdf'
+import type { ServerPlayer } from './App'
+import { getMessages } from './i18n'
+import {
+  RALLIES_PER_ROW,
+  chunkRallies,
+  describeGameNotes,
+  describeMatchTimes,
+  formatSheetDate,
+  rallyCell,
+  type ScoreSheet,
+  type ScoreSheetGame,
+} from './score-sheet'
+
+const PAGE_WIDTH = 297
+const PAGE_HEIGHT = 210
+const MARGIN = 12
+const LABEL_WIDTH = 50
+const CELL_WIDTH = (PAGE_WIDTH - 2 * MARGIN - LABEL_WIDTH) / (RALLIES_PER_ROW + 1)
+const CELL_HEIGHT = 6
+
+/** Skär av texten så att den får plats i bredden. */
+function fitText(doc: jsPDF, text: string, width: number): string {
+  if (doc.getTextWidth(text) <= width) return text
+  let fitted = text
+  while (fitted.length > 1 && doc.getTextWidth(`${fitted}…`) > width) fitted = fitted.slice(0, -1)
+  return `${fitted}…`
+}
+
+function cell(doc: jsPDF, x: number, y: number, width: number, text: string, align: 'left' | 'center' = 'center') {
+  doc.rect(x, y, width, CELL_HEIGHT)
+  if (!text) return
+  const textX = align === 'center' ? x + width / 2 : x + 1.5
+  doc.text(fitText(doc, text, width - 2), textX, y + CELL_HEIGHT - 1.8, { align })
+}
+
+function drawGrid(doc: jsPDF, sheet: ScoreSheet, game: ScoreSheetGame, top: number): number {
+  let y = top
+  chunkRallies(game.rallies).forEach((rallies, r) => {
+    const row = (side: ServerPlayer, team: string) => {
+      cell(doc, MARGIN, y, LABEL_WIDTH, team, 'left')
+      const start = r === 0 ? (game.firstServer === side ? 'S' : 'R') : ''
+      cell(doc, MARGIN + LABEL_WIDTH, y, CELL_WIDTH, start)
+      for (let i = 0; i < RALLIES_PER_ROW; i++) {
+        const rally = rallies[i]
+        cell(doc, MARGIN + LABEL_WIDTH + (i + 1) * CELL_WIDTH, y, CELL_WIDTH, rally ? rallyCell(rally, side) : '')
+      }
+      y += CELL_HEIGHT
+    }
+    const rowTop = y
+    row(1, sheet.team1)
+    row(2, sheet.team2)
+    if (game.interval && Math.floor(game.interval.afterRally / RALLIES_PER_ROW) === r) {
+      const x = MARGIN + LABEL_WIDTH + ((game.interval.afterRally % RALLIES_PER_ROW) + 2) * CELL_WIDTH
+      doc.setLineWidth(0.8)
+      doc.line(x, rowTop, x, y)
+      doc.setLineWidth(0.2)
+    }
+    y += 1.5
+  })
+  return y
+}
+
+function gameHeight(game: ScoreSheetGame): number {
+  return 16 + chunkRallies(game.rallies).length * (2 * CELL_HEIGHT + 1.5)
+}
+
+export function createScoreSheetPdf(sheet: ScoreSheet): jsPDF {
+  const { common, sheet: m } = getMessages()
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4' })
+  doc.setLineWidth(0.2)
+  let y = MARGIN + 6
+
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(16)
+  doc.text(m.title, MARGIN, y)
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(10)
+  y += 8
+  const columns = [MARGIN, MARGIN + 90, MARGIN + 180]
+  ;[m.competition, m.court, m.matchNumber].forEach((label, i) => {
+    doc.text(label, columns[i], y)
+    doc.line(columns[i] + doc.getTextWidth(label) + 2, y + 0.5, columns[i] + 80, y + 0.5)
+  })
+  y += 6
+  doc.text(m.date(formatSheetDate(sheet.date)), columns[0], y)
+  doc.text(describeMatchTimes(sheet), columns[1], y)
+  doc.text(`${sheet.format} · ${sheet.doubles ? common.doubles : common.singles}`, columns[2], y)
+
+  y += 8
+  doc.setFont('helvetica', 'bold')
+  doc.text(m.result, MARGIN, y)
+  doc.setFont('helvetica', 'normal')
+  y += 2
+  const scoreWidth = 18
+  const resultRow = (label: string, values: string[]) => {
+    cell(doc, MARGIN, y, 90, label, 'left')
+    values.forEach((v, i) => cell(doc, MARGIN + 90 + i * scoreWidth, y, scoreWidth, v))
+    y += CELL_HEIGHT
+  }
+  resultRow(m.side, [...sheet.games.map((g) => m.game(g.number)), m.games])
+  resultRow(sheet.players1.join(' / '), [...sheet.games.map((g) => String(g.score1)), String(sheet.set1)])
+  resultRow(sheet.players2.join(' / '), [...sheet.games.map((g) => String(g.score2)), String(sheet.set2)])
+  y += 5
+  const winnerName = sheet.winner === 1 ? sheet.team1 : sheet.winner === 2 ? sheet.team2 : null
+  doc.text(winnerName ? m.winner(winnerName) : m.notFinished, MARGIN, y)
+  y += 4
+
+  for (const game of sheet.games) {
+    if (y + gameHeight(game) > PAGE_HEIGHT - MARGIN) {
+      doc.addPage()
+      y = MARGIN
+    }
+    y += 6
+    doc.setFont('helvetica', 'bold')
+    doc.text(`${m.game(game.number)}: ${game.score1}–${game.score2}`, MARGIN, y)
+    doc.setFont('helvetica', 'normal')
+    y += 2
+    y = drawGrid(doc, sheet, game, y)
+    y += 3
+    doc.text(describeGameNotes(game).join(' · '), MARGIN, y)
+  }
+
+  if (y + 28 > PAGE_HEIGHT - MARGIN) {
+    doc.addPage()
+    y = MARGIN
+  }
+  y += 6
+  doc.setFontSize(8)
+  doc.text(sheet.hasRallyLog ? `${m.legend} ${m.intervalThickLine}` : m.noRallyLog, MARGIN, y)
+  doc.setFontSize(10)
+  y += 18
+  const signatureWidth = (PAGE_WIDTH - 2 * MARGIN - 20) / m.signatures.length
+  m.signatures.forEach((label, i) => {
+    const x = MARGIN + i * (signatureWidth + 10)
+    doc.line(x, y, x + signatureWidth, y)
+    doc.text(label, x, y + 4)
+  })
+  return doc
+}
+
+export function downloadScoreSheetPdf(sheet: ScoreSheet): void {
+  const date = new Date().toISOString().slice(0, 10)
+  createScoreSheetPdf(sheet).save(`badminton_${getMessages().sheet.fileName}_${date}_${Date.now().toString(36)}.pdf`)
+}
@@ -0,0 +1,352 @@
+/**
+ * Domarprotokoll – matchens förlopp i samma upplägg som ett pappersprotokoll:
+ * matchhuvud, spelare, slutställning per game, boll-för-boll-rutnät när
+ * matchloggen finns, pauser och signaturrader.
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import { getDateLocale, getLocale, getMessages } from './i18n'
+import { describeMatchFormat } from './match-format'
+import { applyEvent, getInitialState, hasFullLog } from './match-log'
+import { getMatchWinner } from './match-rules'
+import { downloadFile, formatDuration } from './match-summary'
+import { getPlayerName, getTeamName } from './service'
+
+export interface ScoreSheetRally {
+  /** Sidan som vann bollen. */
+  winner: ServerPlayer
+  /** Sidan som servade bollen. */
+  server: ServerPlayer
+  /** Ställningen efter bollen. */
+  score1: number
+  score2: number
+  /** Falskt när bollen bara gav serven (side-out). */
+  scored: boolean
+}
+
+export interface ScoreSheetGame {
+  number: number
+  score1: number
+  score2: number
+  durationMs: number
+  /** Null för ett pågående game. */
+  winner: ServerPlayer | null
+  /** Sidan som servade först, om loggen finns. */
+  firstServer: ServerPlayer | null
+  rallies: ScoreSheetRally[]
+  /** Pausen mitt i gamet: index för bollen före pausen och pausens längd. */
+  interval: { afterRally: number; durationMs: number | null } | null
+  /** Pausen mellan detta och nästa game. */
+  breakAfterMs: number | null
+}
+
+export interface ScoreSheet {
+  date: number | null
+  /** Första och avgörande boll. */
+  startedAt: number | null
+  endedAt: number | null
+  format: string
+  doubles: boolean
+  team1: string
+  team2: string
+  players1: string[]
+  players2: string[]
+  games: ScoreSheetGame[]
+  set1: number
+  set2: number
+  winner: ServerPlayer | null
+  /** Om boll-för-boll-rutnätet kunde återskapas ur matchloggen. */
+  hasRallyLog: boolean
+}
+
+function players(state: ScoreboardState, side: ServerPlayer): string[] {
+  const names = [getPlayerName(state, side, 0)]
+  if (state.doubles) names.push(getPlayerName(state, side, 1))
+  return names
+}
+
+/** Gamen ur slutställningen när matchloggen saknas (matcher sparade före loggen). */
+function gamesWithoutLog(state: ScoreboardState): ScoreSheetGame[] {
+  const games: ScoreSheetGame[] = state.games.map((g, i) => ({
+    number: i + 1,
+    score1: g.score1,
+    score2: g.score2,
+    durationMs: g.durationMs,
+    winner: g.score1 > g.score2 ? 1 : 2,
+    firstServer: null,
+    rallies: [],
+    interval: null,
+    breakAfterMs: null,
+  }))
+  if (!getMatchWinner(state) && state.score1 + state.score2 > 0) {
+    games.push({
+      number: games.length + 1,
+      score1: state.score1,
+      score2: state.score2,
+      durationMs: 0,
+      winner: null,
+      firstServer: null,
+      rallies: [],
+      interval: null,
+      breakAfterMs: null,
+    })
+  }
+  return games
+}
+
+/** Spelar upp matchloggen och samlar bollarna per game. */
+function gamesFromLog(state: ScoreboardState): ScoreSheetGame[] {
+  const games: ScoreSheetGame[] = []
+  let current = getInitialState(state)
+  let game: ScoreSheetGame | null = null
+  let gameEndedAt: number | null = null
+  let intervalAt: number | null = null
+  const startGame = (): ScoreSheetGame => ({
+    number: games.length + 1,
+    score1: 0,
+    score2: 0,
+    durationMs: 0,
+    winner: null,
+    firstServer: current.currentServer,
+    rallies: [],
+    interval: null,
+    breakAfterMs: null,
+  })
+
+  for (const event of state.events) {
+    const next = applyEvent(current, event)
+    // En spelad boll ändrar alltid poängen eller servern – annars var matchen redan avgjord
+    const played =
+      next.score1 !== current.score1 || next.score2 !== current.score2 || next.currentServer !== current.currentServer
+    if (event.type === 'point' && played) {
+      if (!game) {
+        game = startGame()
+        if (gameEndedAt !== null && games.length > 0) games[games.length - 1].breakAfterMs = event.at - gameEndedAt
+        games.push(game)
+      }
+      if (intervalAt !== null && game.interval) {
+        game.interval.durationMs = event.at - intervalAt
+        intervalAt = null
+      }
+      game.rallies.push({
+        winner: event.player,
+        server: current.currentServer,
+        score1: next.score1,
+        score2: next.score2,
+        scored: next.score1 + next.score2 > current.score1 + current.score2,
+      })
+      game.score1 = next.score1
+      game.score2 = next.score2
+      if (next.interval?.kind === 'interval') {
+        game.interval = { afterRally: game.rallies.length - 1, durationMs: null }
+        intervalAt = event.at
+      }
+    } else if (event.type === 'game' && game) {
+      const finished = next.games[next.games.length - 1]
+      game.winner = event.player
+      game.durationMs = finished.durationMs
+      game.score1 = finished.score1
+      game.score2 = finished.score2
+      // Pausen mitt i gamet gäller inte om gamet avgjordes på pauspoängen
+      if (game.interval && game.interval.afterRally === game.rallies.length - 1) game.interval = null
+      intervalAt = null
+      gameEndedAt = event.at
+      game = null
+    }
+    current = next
+  }
+  return games
+}
+
+export function getScoreSheet(state: ScoreboardState): ScoreSheet {
+  const hasRallyLog = hasFullLog(state) && state.events.length > 0
+  const winner = getMatchWinner(state)
+  const lastEvent = state.events[state.events.length - 1]
+  return {
+    date: state.createdAt ?? state.events[0]?.at ?? null,
+    startedAt: state.matchStartedAt,
+    endedAt: state.matchEndedAt ?? (winner && lastEvent ? lastEvent.at : null),
+    format: describeMatchFormat(state.format),
+    doubles: state.doubles,
+    team1: getTeamName(state, 1),
+    team2: getTeamName(state, 2),
+    players1: players(state, 1),
+    players2: players(state, 2),
+    games: hasRallyLog ? gamesFromLog(state) : gamesWithoutLog(state),
+    set1: state.set1,
+    set2: state.set2,
+    winner,
+    hasRallyLog,
+  }
+}
+
+/** Antal bollar per rad i rutnätet – får plats på en liggande A4. */
+export const RALLIES_PER_ROW = 30
+
+/** Delar gamets bollar i rader om RALLIES_PER_ROW. */
+export function chunkRallies(rallies: ScoreSheetRally[]): ScoreSheetRally[][] {
+  const rows: ScoreSheetRally[][] = []
+  for (let i = 0; i < rallies.length; i += RALLIES_PER_ROW) rows.push(rallies.slice(i, i + RALLIES_PER_ROW))
+  return rows
+}
+
+/** Cellens text: ställningen för sidan som tog poängen, "/" för vunnen serve. */
+export function rallyCell(rally: ScoreSheetRally, side: ServerPlayer): string {
+  if (rally.winner !== side) return ''
+  if (!rally.scored) return '/'
+  return String(side === 1 ? rally.score1 : rally.score2)
+}
+
+export function formatSheetDate(time: number | null): string {
+  if (!time) return ''
+  return new Date(time).toLocaleString(getDateLocale(), {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  })
+}
+
+function formatSheetTime(time: number | null): string {
+  if (!time) return ''
+  return new Date(time).toLocaleTimeString(getDateLocale(), { hour: '2-digit', minute: '2-digit' })
+}
+
+/** Start, slut och matchtid, t.ex. "Start: 18:02 · Slut: 18:47 · Matchtid 45:10". */
+export function describeMatchTimes(sheet: ScoreSheet): string {
+  const m = getMessages().sheet
+  const times = m.times(formatSheetTime(sheet.startedAt), formatSheetTime(sheet.endedAt))
+  if (!sheet.startedAt || !sheet.endedAt) return times
+  return `${times} · ${m.matchTime(formatDuration(sheet.endedAt - sheet.startedAt))}`
+}
+
+/** Text om pausen, t.ex. "Paus vid 11: 1:04". */
+export function describeInterval(game: ScoreSheetGame): string | null {
+  if (!game.interval) return null
+  const rally = game.rallies[game.interval.afterRally]
+  const at = getMessages().sheet.intervalAt(`${rally.score1}–${rally.score2}`)
+  return game.interval.durationMs === null ? at : `${at}: ${formatDuration(game.interval.durationMs)}`
+}
+
+/** Anteckningar under ett games rutnät: speltid, paus och paus före nästa game. */
+export function describeGameNotes(game: ScoreSheetGame): string[] {
+  const m = getMessages().sheet
+  return [
+    game.winner ? m.playTime(formatDuration(game.durationMs)) : m.ongoing,
+    describeInterval(game),
+    game.breakAfterMs !== null ? m.breakBefore(formatDuration(game.breakAfterMs)) : null,
+  ].filter((note): note is string => note !== null)
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const SHEET_CSS = `
+  * { box-sizing: border-box; }
+  body { font-family: Arial, Helvetica, sans-serif; color: #000; background: #fff; margin: 1.5rem; font-size: 12px; }
+  h1 { font-size: 20px; margin: 0 0 0.5rem; }
+  h2 { font-size: 14px; margin: 1rem 0 0.25rem; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #000; padding: 2px 4px; text-align: center; }
+  .sheet-header td { text-align: left; border: none; padding: 2px 12px 2px 0; }
+  .sheet-header .blank { display: inline-block; min-width: 8rem; border-bottom: 1px solid #000; }
+  .sheet-games th, .sheet-games td { min-width: 4rem; }
+  .sheet-games .team { text-align: left; min-width: 14rem; }
+  .sheet-grid { margin-bottom: 0.25rem; table-layout: fixed; }
+  .sheet-grid th { text-align: left; width: 10rem; font-weight: normal; white-space: nowrap; overflow: hidden; }
+  .sheet-grid td { width: 1.6rem; height: 1.4rem; }
+  .sheet-grid td.interval { border-right: 3px double #000; }
+  .sheet-grid td.serve { color: #666; }
+  .sheet-note { margin: 0 0 0.5rem; color: #333; }
+  .sheet-signatures { display: flex; gap: 2rem; margin-top: 2.5rem; }
+  .sheet-signatures div { flex: 1; border-top: 1px solid #000; padding-top: 2px; }
+  .sheet-actions { margin-bottom: 1rem; }
+  .sheet-actions button { font-size: 14px; padding: 0.4rem 1rem; }
+  @page { size: A4 landscape; margin: 12mm; }
+  @media print {
+    body { margin: 0; }
+    .sheet-actions { display: none; }
+    .sheet-game { break-inside: avoid; }
+  }
+`
+
+function renderGrid(sheet: ScoreSheet, game: ScoreSheetGame): string {
+  if (game.rallies.length === 0) return ''
+  const rows = chunkRallies(game.rallies)
+  const intervalRow = game.interval ? Math.floor(game.interval.afterRally / RALLIES_PER_ROW) : -1
+  const intervalCol = game.interval ? game.interval.afterRally % RALLIES_PER_ROW : -1
+  const tables = rows.map((rallies, r) => {
+    const row = (side: ServerPlayer, team: string) => {
+      const start = r === 0 ? (game.firstServer === side ? 'S' : 'R') : ''
+      const cells = Array.from({ length: RALLIES_PER_ROW }, (_, i) => {
+        const rally = rallies[i]
+        const classes = [r === intervalRow && i === intervalCol ? 'interval' : '', rally && !rally.scored ? 'serve' : '']
+        const className = classes.filter(Boolean).join(' ')
+        return `<td${className ? ` class="${className}"` : ''}>${rally ? rallyCell(rally, side) : ''}</td>`
+      })
+      return `<tr><th>${escapeHtml(team)}</th><td>${start}</td>${cells.join('')}</tr>`
+    }
+    return `<table class="sheet-grid">${row(1, sheet.team1)}${row(2, sheet.team2)}</table>`
+  })
+  return tables.join('')
+}
+
+function renderGame(sheet: ScoreSheet, game: ScoreSheetGame): string {
+  return `<section class="sheet-game">
+  <h2>${getMessages().sheet.game(game.number)}: ${game.score1}–${game.score2}</h2>
+  ${renderGrid(sheet, game)}
+  <p class="sheet-note">${describeGameNotes(game).map(escapeHtml).join(' · ')}</p>
+</section>`
+}
+
+/** Protokollet som ett fristående HTML-dokument med utskriftsformatering. */
+export function renderScoreSheetHtml(sheet: ScoreSheet): string {
+  const { common, sheet: m } = getMessages()
+  const winnerName = sheet.winner === 1 ? sheet.team1 : sheet.winner === 2 ? sheet.team2 : null
+  const blank = '<span class="blank"></span>'
+  const gameHeaders = sheet.games.map((g) => `<th>${m.game(g.number)}</th>`).join('')
+  const gameScores = (side: ServerPlayer) =>
+    sheet.games.map((g) => `<td>${side === 1 ? g.score1 : g.score2}</td>`).join('')
+  return `<!doctype html>
+<html lang="${getLocale()}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(m.documentTitle(sheet.team1, sheet.team2))}</title>
+<style>${SHEET_CSS}</style>
+</head>
+<body>
+<div class="sheet-actions"><button type="button" onclick="window.print()">${escapeHtml(m.print)}</button></div>
+<h1>${escapeHtml(m.title)}</h1>
+<table class="sheet-header">
+  <tr><td>${m.competition} ${blank}</td><td>${m.court} ${blank}</td><td>${m.matchNumber} ${blank}</td></tr>
+  <tr><td>${escapeHtml(m.date(formatSheetDate(sheet.date)))}</td><td>${escapeHtml(describeMatchTimes(sheet))}</td><td>${escapeHtml(sheet.format)} · ${sheet.doubles ? common.doubles : common.singles}</td></tr>
+</table>
+<h2>${m.result}</h2>
+<table class="sheet-games">
+  <tr><th class="team">${m.side}</th>${gameHeaders}<th>${m.games}</th></tr>
+  <tr><td class="team">${escapeHtml(sheet.players1.join(' / '))}</td>${gameScores(1)}<td>${sheet.set1}</td></tr>
+  <tr><td class="team">${escapeHtml(sheet.players2.join(' / '))}</td>${gameScores(2)}<td>${sheet.set2}</td></tr>
+</table>
+<p class="sheet-note">${winnerName ? escapeHtml(m.winner(winnerName)) : m.notFinished}</p>
+${sheet.games.map((g) => renderGame(sheet, g)).join('\n')}
+<p class="sheet-note">${escapeHtml(sheet.hasRallyLog ? `${m.legend} ${m.intervalDoubleLine}` : m.noRallyLog)}</p>
+<div class="sheet-signatures">${m.signatures.map((label) => `<div>${escapeHtml(label)}</div>`).join('')}</div>
+</body>
+</html>
+`
+}
+
+/** Öppnar protokollet i en ny flik för utskrift; blockeras fliken laddas HTML-filen ner i stället. */
+export function openScoreSheet(sheet: ScoreSheet): void {
+  const html = renderScoreSheetHtml(sheet)
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html;charset=utf-8' }))
+  const opened = window.open(url, '_blank')
+  if (!opened) downloadFile(html, 'html', 'text/html;charset=utf-8')
+  // Fliken behöver läsa adressen innan den släpps
+  setTimeout(() => URL.revokeObjectURL(url), 60000)
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import type { ScoreboardState } from './App'
+import { applyRally } from './match-rules'
+import { EMPTY_STATE } from './match-storage'
+import { getServiceCourt, getServiceSituation, getTeamName } from './service'
+
+function doubles(overrides: Partial<ScoreboardState> = {}): ScoreboardState {
+  return { ...EMPTY_STATE, doubles: true, name1: 'Anna', partner1: 'Cia', name2: 'Bo', partner2: 'Dan', ...overrides }
+}
+
+describe('getServiceCourt', () => {
+  it('servar från höger på jämn poäng och från vänster på udda', () => {
+    const state = { ...EMPTY_STATE, currentServer: 2 as const }
+    expect(getServiceCourt({ ...state, score1: 3, score2: 0 })).toBe('right')
+    expect(getServiceCourt({ ...state, score1: 0, score2: 3 })).toBe('left')
+  })
+})
+
+describe('getServiceSituation i dubbel', () => {
+  it('börjar med spelarna i höger ruta och mottagaren snett emot', () => {
+    expect(getServiceSituation(doubles())).toEqual({ server: 'Anna', receiver: 'Bo', court: 'right' })
+  })
+
+  it('låter servande sida byta ruta när den vinner bollen', () => {
+    const next = applyRally(doubles(), 1, 0)
+    expect(next.rightCourt1).toBe(1)
+    expect(getServiceSituation(next)).toEqual({ server: 'Anna', receiver: 'Dan', court: 'left' })
+  })
+
+  it('ger serven till mottagande sida utan att någon byter ruta', () => {
+    const next = applyRally(doubles(), 2, 0)
+    expect([next.rightCourt1, next.rightCourt2]).toEqual([0, 0])
+    expect(getServiceSituation(next)).toEqual({ server: 'Dan', receiver: 'Cia', court: 'left' })
+  })
+})
+
+describe('getTeamName', () => {
+  it('visar båda spelarna i dubbel', () => {
+    expect(getTeamName(doubles(), 2)).toBe('Bo / Dan')
+    expect(getTeamName({ ...doubles(), doubles: false }, 2)).toBe('Bo')
+  })
+})
@@ -0,0 +1,79 @@
+/**
+ * Serve och mottagning – vem servar, från vilken serveruta och vem tar emot.
+ * Gäller både singel och dubbel. Serven slås från höger ruta när den
+ * servande sidans poäng är jämn och från vänster när den är udda. I dubbel
+ * servar den spelare som står i den rutan, och mottagaren är motståndaren
+ * snett emot (i rutan med samma namn).
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import { getMessages } from './i18n'
+
+/** Vilken av sidans två spelare: 0 = förste (name), 1 = partner. */
+export type CourtPlayer = 0 | 1
+
+export type ServiceCourt = 'right' | 'left'
+
+export interface ServiceSituation {
+  server: string
+  receiver: string
+  court: ServiceCourt
+}
+
+export function opponentOf(side: ServerPlayer): ServerPlayer {
+  return side === 1 ? 2 : 1
+}
+
+export function getServiceCourt(state: ScoreboardState): ServiceCourt {
+  const score = state.currentServer === 1 ? state.score1 : state.score2
+  return score % 2 === 0 ? 'right' : 'left'
+}
+
+/** Namn på en enskild spelare, med standardnamn om fältet är tomt. */
+export function getPlayerName(state: ScoreboardState, side: ServerPlayer, player: CourtPlayer): string {
+  const name = player === 0 ? (side === 1 ? state.name1 : state.name2) : side === 1 ? state.partner1 : state.partner2
+  const m = getMessages().service
+  const fallback = player === 0 ? m.player(side) : m.partner(side)
+  return name.trim() || fallback
+}
+
+/** Namn på en sida – i dubbel båda spelarna, t.ex. "Anna / Bo". */
+export function getTeamName(state: ScoreboardState, side: ServerPlayer): string {
+  if (!state.doubles) return getPlayerName(state, side, 0)
+  return `${getPlayerName(state, side, 0)} / ${getPlayerName(state, side, 1)}`
+}
+
+/** Vilken av sidans spelare som står i angiven serveruta. */
+export function getPlayerInCourt(state: ScoreboardState, side: ServerPlayer, court: ServiceCourt): CourtPlayer {
+  const inRight = side === 1 ? state.rightCourt1 : state.rightCourt2
+  if (court === 'right') return inRight
+  return inRight === 0 ? 1 : 0
+}
+
+export function getServiceSituation(state: ScoreboardState): ServiceSituation {
+  const serverSide = state.currentServer
+  const receiverSide = opponentOf(serverSide)
+  const court = getServiceCourt(state)
+  if (!state.doubles) {
+    return {
+      server: getPlayerName(state, serverSide, 0),
+      receiver: getPlayerName(state, receiverSide, 0),
+      court,
+    }
+  }
+  return {
+    server: getPlayerName(state, serverSide, getPlayerInCourt(state, serverSide, court)),
+    receiver: getPlayerName(state, receiverSide, getPlayerInCourt(state, receiverSide, court)),
+    court,
+  }
+}
+
+/** Sidans spelare byter serveruta med varandra. */
+export function switchCourts(state: ScoreboardState, side: ServerPlayer): ScoreboardState {
+  if (side === 1) return { ...state, rightCourt1: state.rightCourt1 === 0 ? 1 : 0 }
+  return { ...state, rightCourt2: state.rightCourt2 === 0 ? 1 : 0 }
+}
+
+export function formatServiceCourt(court: ServiceCourt): string {
+  const m = getMessages().service
+  return court === 'right' ? m.rightCourt : m.leftCourt
+}
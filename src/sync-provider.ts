@@ -0,0 +1,65 @@
+/**
+ * Gemensamt gränssnitt för synk av matchstate mellan poängräknare och visare.
+ * Varje backend (Firebase, BroadcastChannel, WebSocket-relä) implementerar
+ * samma operationer; vilken som används väljs i sync.ts.
+ *
+ * Matchstate skickas signerat av poängräknaren som äger matchen, och visare
+ * tar bara emot uppdateringar vars signatur stämmer med läsnyckeln (se match-keys.ts).
+ */
+import type { ScoreboardState } from './App'
+import { parseMatchStateJson } from './match-codec'
+import { verifyPayload } from './match-keys'
+
+export type SyncProviderId = 'firebase' | 'broadcast' | 'websocket'
+
+/**
+ * Utfall av en skrivning: sparad, avvisad eftersom mottagaren har en nyare
+ * version, eller nekad eftersom en annan enhet äger matchen.
+ */
+export type WriteResult = 'saved' | 'stale' | 'forbidden'
+
+/** En signerad uppdatering så som den skickas och lagras. */
+export interface SignedState {
+  /** ScoreboardState som JSON – skickas som sträng så att signaturen gäller exakt de tecken som signerades. */
+  payload: string
+  signature: string
+  /** Kopior ur payload så att relä och databasregler kan avvisa inaktuella skrivningar. */
+  version: number
+  updatedAt: number | null
+}
+
+export interface SyncProvider {
+  id: SyncProviderId
+  /** Om andra enheter nås – BroadcastChannel når bara flikar i samma webbläsare. */
+  remote: boolean
+  /**
+   * Skickar matchens senaste state tillsammans med skrivtoken, som aldrig når visarna.
+   * Avvisas (reject) om den inte kunde skickas, t.ex. offline.
+   */
+  write: (matchId: string, update: SignedState, writeToken: string) => Promise<WriteResult>
+  /** Prenumererar på en match. Uppdateringarna är ännu inte kontrollerade. Returnerar en avprenumereringsfunktion. */
+  subscribe: (matchId: string, onUpdate: (update: SignedState) => void) => () => void
+  /** Följer anslutningen; anropas direkt med nuvarande läge. Returnerar en avprenumereringsfunktion. */
+  watchConnection: (onChange: (connected: boolean) => void) => () => void
+}
+
+export function parseSignedState(data: unknown): SignedState | null {
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (typeof d.payload !== 'string' || typeof d.signature !== 'string') return null
+  return {
+    payload: d.payload,
+    signature: d.signature,
+    version: Number(d.version) || 0,
+    updatedAt: Number(d.updatedAt) || null,
+  }
+}
+
+/**
+ * Matchstate ur en mottagen uppdatering, eller null om den inte är signerad
+ * av matchens ägare – t.ex. skriven av någon som bara känner till match-id:t.
+ */
+export function openSignedState(update: SignedState, readToken: string): ScoreboardState | null {
+  if (!verifyPayload(readToken, update.payload, update.signature)) return null
+  return parseMatchStateJson(update.payload)
+}
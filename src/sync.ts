@@ -0,0 +1,261 @@
+/**
+ * Synk av matchstate mellan poängräknare och visare. Backend väljs med
+ * VITE_SYNC_PROVIDER: "firebase", "websocket", "broadcast" eller "none".
+ * Utan inställning används Firebase om det är konfigurerat, annars
+ * BroadcastChannel (bara flikar i samma webbläsare).
+ *
+ * Skrivningar läggs i en kö (senaste state per match, och senast bekräftade
+ * version så att antalet väntande uppdateringar kan visas) som sparas i
+ * localStorage och skickas om när anslutningen är tillbaka. De signeras med
+ * matchens nycklar, och mottagna uppdateringar kontrolleras mot läsnyckeln.
+ *
+ * Tavlans utseende skickas i en egen kanal per match (<match-id>-display),
+ * så att loggan inte följer med varje boll.
+ */
+import type { ScoreboardState } from './App'
+import { createBroadcastSync } from './broadcast-sync'
+import { parseDisplaySettingsJson, type DisplaySettings } from './display-settings'
+import { createFirebaseSync } from './firebase-sync'
+import { decodeMatchState, encodeMatchState, serializeMatchState } from './match-codec'
+import { getOrCreateMatchKeys, signPayload, verifyPayload } from './match-keys'
+import { openSignedState, type SignedState, type SyncProvider, type SyncProviderId } from './sync-provider'
+import { createWebSocketSync, getDefaultRelayUrl } from './websocket-sync'
+
+const QUEUE_STORAGE_KEY = 'badminton-sync-queue'
+const RETRY_DELAY_MS = 5000
+
+export interface SyncStatus {
+  provider: SyncProviderId | null
+  /** Om backenden just nu har kontakt med servern (alltid sant för BroadcastChannel). */
+  connected: boolean
+  /** Antal uppdateringar (versioner) som ännu inte bekräftats, över alla matcher. */
+  pending: number
+  /** Senaste skrivningen nekades – en annan enhet äger matchen. */
+  writeDenied: boolean
+}
+
+function createProvider(): SyncProvider | null {
+  switch (import.meta.env.VITE_SYNC_PROVIDER) {
+    case 'firebase':
+      return createFirebaseSync()
+    case 'websocket':
+      return createWebSocketSync(import.meta.env.VITE_SYNC_WS_URL || getDefaultRelayUrl())
+    case 'broadcast':
+      return createBroadcastSync()
+    case 'none':
+      return null
+    default:
+      return createFirebaseSync() ?? createBroadcastSync()
+  }
+}
+
+interface QueuedState {
+  state: ScoreboardState
+  /** Senast bekräftade version – versionerna efter den väntar på att skickas. */
+  confirmedVersion: number
+}
+
+function loadQueue(): Map<string, QueuedState> {
+  const loaded = new Map<string, QueuedState>()
+  try {
+    const raw = localStorage.getItem(QUEUE_STORAGE_KEY)
+    const data = raw ? (JSON.parse(raw) as Record<string, unknown>) : {}
+    for (const [matchId, value] of Object.entries(data)) {
+      const entry = (value ?? {}) as Record<string, unknown>
+      const state = decodeMatchState(entry.state)
+      if (state && typeof entry.confirmedVersion === 'number') {
+        loaded.set(matchId, { state, confirmedVersion: entry.confirmedVersion })
+      }
+    }
+  } catch {
+    // ignore
+  }
+  return loaded
+}
+
+function saveQueue(): void {
+  try {
+    if (queue.size === 0) {
+      localStorage.removeItem(QUEUE_STORAGE_KEY)
+      return
+    }
+    const data = Object.fromEntries(
+      [...queue].map(([matchId, { state, confirmedVersion }]) => [
+        matchId,
+        { state: encodeMatchState(state), confirmedVersion },
+      ])
+    )
+    localStorage.setItem(QUEUE_STORAGE_KEY, JSON.stringify(data))
+  } catch {
+    // ignore
+  }
+}
+
+const provider = typeof window === 'undefined' ? null : createProvider()
+const queue = provider ? loadQueue() : new Map<string, QueuedState>()
+const inFlight = new Set<string>()
+const statusListeners = new Set<(status: SyncStatus) => void>()
+let connected = false
+let writeDenied = false
+let retryTimer: number | null = null
+
+export function getSyncStatus(): SyncStatus {
+  let pending = 0
+  for (const { state, confirmedVersion } of queue.values()) pending += Math.max(1, state.version - confirmedVersion)
+  return { provider: provider?.id ?? null, connected, pending, writeDenied }
+}
+
+function signState(matchId: string, state: ScoreboardState): { update: SignedState; writeToken: string } {
+  const keys = getOrCreateMatchKeys(matchId)
+  const payload = serializeMatchState(state)
+  return {
+    update: { payload, signature: signPayload(keys, payload), version: state.version, updatedAt: state.updatedAt },
+    writeToken: keys.writeToken,
+  }
+}
+
+function notifyStatus(): void {
+  const status = getSyncStatus()
+  statusListeners.forEach((onChange) => onChange(status))
+}
+
+function scheduleRetry(): void {
+  if (retryTimer !== null) return
+  retryTimer = window.setTimeout(() => {
+    retryTimer = null
+    flushQueue()
+  }, RETRY_DELAY_MS)
+}
+
+function flushQueue(): void {
+  if (!provider || !connected) return
+  for (const [matchId, { state }] of queue) {
+    if (inFlight.has(matchId)) continue
+    inFlight.add(matchId)
+    const { update, writeToken } = signState(matchId, state)
+    provider
+      .write(matchId, update, writeToken)
+      .then((result) => {
+        // Sparad, inaktuell eller nekad – i inget av fallen ska den skickas igen.
+        // Har en nyare version köats under tiden skickas den i nästa varv.
+        writeDenied = result === 'forbidden'
+        const queued = queue.get(matchId)
+        if (queued?.state === state) queue.delete(matchId)
+        else if (queued) queued.confirmedVersion = Math.max(queued.confirmedVersion, state.version)
+      })
+      .catch(() => scheduleRetry())
+      .finally(() => {
+        inFlight.delete(matchId)
+        saveQueue()
+        notifyStatus()
+        const queued = queue.get(matchId)
+        if (queued && queued.state !== state) flushQueue()
+      })
+  }
+  flushDisplaySettings()
+}
+
+/**
+ * Tavlans utseende per match som väntar på att skickas. Det sparas inte i kön –
+ * poängräknaren skickar det igen när matchen öppnas.
+ */
+const pendingDisplay = new Map<string, DisplaySettings>()
+
+function getDisplayChannel(matchId: string): string {
+  return `${matchId}-display`
+}
+
+function flushDisplaySettings(): void {
+  if (!provider || !connected) return
+  for (const [matchId, settings] of pendingDisplay) {
+    const channel = getDisplayChannel(matchId)
+    if (inFlight.has(channel)) continue
+    inFlight.add(channel)
+    const keys = getOrCreateMatchKeys(matchId)
+    const payload = JSON.stringify(settings)
+    // Tiden som version – senast valda utseende vinner hos relä och databas
+    const changedAt = Date.now()
+    const update = { payload, signature: signPayload(keys, payload), version: changedAt, updatedAt: changedAt }
+    provider
+      .write(channel, update, keys.writeToken)
+      .then(() => {
+        if (pendingDisplay.get(matchId) === settings) pendingDisplay.delete(matchId)
+      })
+      .catch(() => scheduleRetry())
+      .finally(() => {
+        inFlight.delete(channel)
+        const queued = pendingDisplay.get(matchId)
+        if (queued && queued !== settings) flushDisplaySettings()
+      })
+  }
+}
+
+if (provider) {
+  provider.watchConnection((value) => {
+    connected = value
+    notifyStatus()
+    flushQueue()
+  })
+  window.addEventListener('online', flushQueue)
+}
+
+/** Om visare på andra enheter kan följa matchen. */
+export function isRemoteSyncEnabled(): boolean {
+  return provider?.remote === true
+}
+
+export function writeMatchState(matchId: string, state: ScoreboardState): void {
+  if (!provider) return
+  const confirmedVersion = queue.get(matchId)?.confirmedVersion ?? state.version - 1
+  queue.set(matchId, { state, confirmedVersion })
+  saveQueue()
+  notifyStatus()
+  flushQueue()
+}
+
+/** Skickar tavlans utseende till matchens tavlor. */
+export function writeDisplaySettings(matchId: string, settings: DisplaySettings): void {
+  if (!provider) return
+  pendingDisplay.set(matchId, settings)
+  flushDisplaySettings()
+}
+
+/**
+ * Prenumerera på matchstate från andra flikar eller enheter. Anropas när visaren
+ * öppnas (t.ex. på en TV eller iOS). Bara uppdateringar signerade av ägaren till
+ * readToken släpps igenom; utan läsnyckel tas inget emot.
+ * Returnerar en avprenumereringsfunktion.
+ */
+export function subscribeMatchState(
+  matchId: string,
+  readToken: string | null,
+  onUpdate: (state: ScoreboardState) => void
+): () => void {
+  if (!provider || !readToken) return () => {}
+  return provider.subscribe(matchId, (update) => {
+    const state = openSignedState(update, readToken)
+    if (state) onUpdate(state)
+  })
+}
+
+/** Prenumerera på tavlans utseende för matchen – som för matchstate krävs läsnyckeln. */
+export function subscribeDisplaySettings(
+  matchId: string,
+  readToken: string | null,
+  onUpdate: (settings: DisplaySettings) => void
+): () => void {
+  if (!provider || !readToken) return () => {}
+  return provider.subscribe(getDisplayChannel(matchId), (update) => {
+    if (!verifyPayload(readToken, update.payload, update.signature)) return
+    const settings = parseDisplaySettingsJson(update.payload)
+    if (settings) onUpdate(settings)
+  })
+}
+
+/** Följer synkstatus; anropas vid varje ändring. Returnerar en avprenumereringsfunktion. */
+export function subscribeSyncStatus(onChange: (status: SyncStatus) => void): () => void {
+  statusListeners.add(onChange)
+  return () => {
+    statusListeners.delete(onChange)
+  }
+}
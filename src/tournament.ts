@@ -0,0 +1,401 @@
+/**
+ * Turneringar – gruppspel (alla möter alla) eller utslagsturnering med seedning.
+ * Rena funktioner för lottning, tabeller och avancemang, plus lagring i
+ * localStorage. Varje turneringsmatch spelas i poängräknaren och resultatet
+ * hämtas tillbaka från den sparade matchen.
+ */
+import type { ScoreboardState, ServerPlayer } from './App'
+import { getMessages } from './i18n'
+import { DEFAULT_MATCH_FORMAT, parseMatchFormat, type MatchFormat } from './match-format'
+import { getMatchWinner, parseGameScores, type GameScore } from './match-rules'
+import { parsePlayerId } from './player-roster'
+
+export type TournamentType = 'roundrobin' | 'knockout'
+
+export interface TournamentParticipant {
+  id: string
+  name: string
+  /** Id i spelarregistret, om deltagaren finns där. */
+  playerId: string | null
+}
+
+export interface TournamentResult {
+  set1: number
+  set2: number
+  games: GameScore[]
+}
+
+export interface TournamentMatch {
+  id: string
+  /** Omgång, från 0. */
+  round: number
+  /** Grupp i gruppspel, null i utslagsturnering. */
+  group: number | null
+  side1: string | null
+  side2: string | null
+  court: number | null
+  /** Id för matchen i poängräknaren när den har startats. */
+  counterMatchId: string | null
+  winner: string | null
+  result: TournamentResult | null
+}
+
+export interface Tournament {
+  id: string
+  name: string
+  type: TournamentType
+  format: MatchFormat
+  courts: number
+  participants: TournamentParticipant[]
+  matches: TournamentMatch[]
+  createdAt: number
+}
+
+export interface Standing {
+  participantId: string
+  played: number
+  wins: number
+  losses: number
+  gamesFor: number
+  gamesAgainst: number
+  pointsFor: number
+  pointsAgainst: number
+}
+
+function generateId(prefix: string): string {
+  return crypto.randomUUID?.() ?? `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 11)}`
+}
+
+function createMatch(round: number, group: number | null, side1: string | null, side2: string | null): TournamentMatch {
+  return {
+    id: generateId('tmatch'),
+    round,
+    group,
+    side1,
+    side2,
+    court: null,
+    counterMatchId: null,
+    winner: null,
+    result: null,
+  }
+}
+
+export function createParticipant(name: string, playerId: string | null): TournamentParticipant {
+  return { id: generateId('participant'), name: name.trim(), playerId }
+}
+
+/** Delar upp deltagarna (i seedningsordning) i grupper med ormlottning. */
+export function splitIntoGroups<T>(items: T[], groupCount: number): T[][] {
+  const count = Math.max(1, Math.min(groupCount, Math.floor(items.length / 2) || 1))
+  const groups: T[][] = Array.from({ length: count }, () => [])
+  items.forEach((item, i) => {
+    const lap = Math.floor(i / count)
+    const pos = i % count
+    groups[lap % 2 === 0 ? pos : count - 1 - pos].push(item)
+  })
+  return groups
+}
+
+/** Alla möter alla enligt rotationsmetoden – varje deltagare spelar högst en gång per omgång. */
+export function generateRoundRobinRounds(ids: string[]): [string, string][][] {
+  const list: (string | null)[] = ids.length % 2 === 0 ? [...ids] : [...ids, null]
+  const rounds: [string, string][][] = []
+  for (let r = 0; r < list.length - 1; r++) {
+    const pairs: [string, string][] = []
+    for (let i = 0; i < list.length / 2; i++) {
+      const a = list[i]
+      const b = list[list.length - 1 - i]
+      if (a && b) pairs.push(r % 2 === 0 ? [a, b] : [b, a])
+    }
+    rounds.push(pairs)
+    // Första platsen står still, övriga roterar ett steg
+    list.splice(1, 0, list.pop() ?? null)
+  }
+  return rounds
+}
+
+/** Seedningsordning i en lottning av storlek 2^n, t.ex. 8 → [1, 8, 4, 5, 2, 7, 3, 6]. */
+export function getSeedOrder(size: number): number[] {
+  let order = [1]
+  while (order.length < size) {
+    const n = order.length * 2
+    order = order.flatMap((seed) => [seed, n + 1 - seed])
+  }
+  return order
+}
+
+function generateKnockout(ids: string[]): TournamentMatch[] {
+  const size = Math.max(2, 2 ** Math.ceil(Math.log2(Math.max(ids.length, 2))))
+  const order = getSeedOrder(size)
+  const matches: TournamentMatch[] = []
+  for (let i = 0; i < size / 2; i++) {
+    matches.push(createMatch(0, null, ids[order[2 * i] - 1] ?? null, ids[order[2 * i + 1] - 1] ?? null))
+  }
+  for (let round = 1, count = size / 4; count >= 1; round++, count /= 2) {
+    for (let i = 0; i < count; i++) matches.push(createMatch(round, null, null, null))
+  }
+  // Walk over: deltagare utan motståndare går direkt vidare
+  return matches.reduce((acc, m) => {
+    const isBye = m.round === 0 && (m.side1 === null) !== (m.side2 === null)
+    return isBye ? advanceWinner(acc, m.id, m.side1 ?? m.side2) : acc
+  }, matches)
+}
+
+/**
+ * Skapar en turnering. Deltagarna anges i seedningsordning (bäst först).
+ * Gruppspel lottas i det angivna antalet grupper.
+ */
+export function createTournament(
+  name: string,
+  type: TournamentType,
+  participants: TournamentParticipant[],
+  options: { format?: MatchFormat; courts?: number; groups?: number } = {}
+): Tournament {
+  const ids = participants.map((p) => p.id)
+  let matches: TournamentMatch[]
+  if (type === 'knockout') {
+    matches = generateKnockout(ids)
+  } else {
+    matches = splitIntoGroups(ids, options.groups ?? 1).flatMap((groupIds, group) =>
+      generateRoundRobinRounds(groupIds).flatMap((pairs, round) =>
+        pairs.map(([a, b]) => createMatch(round, group, a, b))
+      )
+    )
+  }
+  return {
+    id: generateId('tournament'),
+    name: name.trim() || getMessages().tournament.defaultName,
+    type,
+    format: options.format ?? DEFAULT_MATCH_FORMAT,
+    courts: Math.max(1, options.courts ?? 1),
+    participants,
+    matches,
+    createdAt: Date.now(),
+  }
+}
+
+export function getParticipant(tournament: Tournament, id: string | null): TournamentParticipant | null {
+  if (!id) return null
+  return tournament.participants.find((p) => p.id === id) ?? null
+}
+
+export function getRoundCount(tournament: Tournament): number {
+  return tournament.matches.reduce((max, m) => Math.max(max, m.round + 1), 0)
+}
+
+/** Matchen kan spelas: båda sidor klara och inget resultat ännu. */
+export function isMatchReady(match: TournamentMatch): boolean {
+  return match.side1 !== null && match.side2 !== null && match.winner === null
+}
+
+/** Sätter matchens vinnare; i utslagsturnering förs vinnaren vidare till rätt plats i nästa omgång. */
+function advanceWinner(matches: TournamentMatch[], matchId: string, winner: string | null): TournamentMatch[] {
+  const match = matches.find((m) => m.id === matchId)
+  if (!match) return matches
+  const index = matches.filter((m) => m.round === match.round).indexOf(match)
+  const next =
+    match.group === null ? matches.filter((m) => m.round === match.round + 1)[Math.floor(index / 2)] : undefined
+  return matches.map((m) => {
+    if (m.id === matchId) return { ...m, winner }
+    if (next && m.id === next.id) return index % 2 === 0 ? { ...m, side1: winner } : { ...m, side2: winner }
+    return m
+  })
+}
+
+/** Registrerar ett resultat (sett från turneringsmatchens side1) och för vinnaren vidare. */
+export function recordResult(tournament: Tournament, matchId: string, result: TournamentResult): Tournament {
+  const match = tournament.matches.find((m) => m.id === matchId)
+  if (!match || !match.side1 || !match.side2) return tournament
+  const winner = result.set1 > result.set2 ? match.side1 : match.side2
+  const withResult = tournament.matches.map((m) => (m.id === matchId ? { ...m, result } : m))
+  return { ...tournament, matches: advanceWinner(withResult, matchId, winner) }
+}
+
+/** Resultat ur en avslutad match i poängräknaren, sett från turneringsmatchens side1. */
+export function getResultFromState(state: ScoreboardState): TournamentResult | null {
+  if (!getMatchWinner(state)) return null
+  return { set1: state.set1, set2: state.set2, games: state.games }
+}
+
+/** Hämtar resultat för startade matcher som har spelats klart i poängräknaren. */
+export function syncResults(
+  tournament: Tournament,
+  loadState: (counterMatchId: string) => ScoreboardState | null
+): Tournament {
+  return tournament.matches.reduce((t, m) => {
+    if (m.winner || !m.counterMatchId) return t
+    const state = loadState(m.counterMatchId)
+    const result = state ? getResultFromState(state) : null
+    return result ? recordResult(t, m.id, result) : t
+  }, tournament)
+}
+
+export function assignCourt(tournament: Tournament, matchId: string, court: number | null): Tournament {
+  return {
+    ...tournament,
+    matches: tournament.matches.map((m) => (m.id === matchId ? { ...m, court } : m)),
+  }
+}
+
+/** Fördelar lediga banor på spelklara matcher i spelordning. */
+export function autoAssignCourts(tournament: Tournament): Tournament {
+  const busy = new Set(
+    tournament.matches.filter((m) => m.court !== null && m.winner === null).map((m) => m.court)
+  )
+  const free: number[] = []
+  for (let c = 1; c <= tournament.courts; c++) if (!busy.has(c)) free.push(c)
+  const waiting = tournament.matches
+    .filter((m) => isMatchReady(m) && m.court === null)
+    .sort((a, b) => a.round - b.round)
+  return waiting.reduce((t, m) => {
+    const court = free.shift()
+    return court === undefined ? t : assignCourt(t, m.id, court)
+  }, tournament)
+}
+
+export function setCounterMatch(tournament: Tournament, matchId: string, counterMatchId: string): Tournament {
+  return {
+    ...tournament,
+    matches: tournament.matches.map((m) => (m.id === matchId ? { ...m, counterMatchId } : m)),
+  }
+}
+
+/**
+ * Gruppens tabell. Ordning: vinster, gamedifferens, poängdifferens,
+ * därefter namn.
+ */
+export function computeStandings(tournament: Tournament, group: number): Standing[] {
+  const ids = new Set(
+    tournament.matches.filter((m) => m.group === group).flatMap((m) => [m.side1, m.side2])
+  )
+  const table = new Map<string, Standing>()
+  for (const id of ids) {
+    if (!id) continue
+    table.set(id, {
+      participantId: id,
+      played: 0,
+      wins: 0,
+      losses: 0,
+      gamesFor: 0,
+      gamesAgainst: 0,
+      pointsFor: 0,
+      pointsAgainst: 0,
+    })
+  }
+  for (const m of tournament.matches) {
+    if (m.group !== group || !m.result || !m.side1 || !m.side2) continue
+    const sides: [string, ServerPlayer][] = [
+      [m.side1, 1],
+      [m.side2, 2],
+    ]
+    for (const [id, side] of sides) {
+      const row = table.get(id)
+      if (!row) continue
+      const own = side === 1 ? m.result.set1 : m.result.set2
+      const other = side === 1 ? m.result.set2 : m.result.set1
+      row.played += 1
+      if (m.winner === id) row.wins += 1
+      else row.losses += 1
+      row.gamesFor += own
+      row.gamesAgainst += other
+      for (const g of m.result.games) {
+        row.pointsFor += side === 1 ? g.score1 : g.score2
+        row.pointsAgainst += side === 1 ? g.score2 : g.score1
+      }
+    }
+  }
+  const nameOf = (id: string) => getParticipant(tournament, id)?.name ?? ''
+  return [...table.values()].sort(
+    (a, b) =>
+      b.wins - a.wins ||
+      b.gamesFor - b.gamesAgainst - (a.gamesFor - a.gamesAgainst) ||
+      b.pointsFor - b.pointsAgainst - (a.pointsFor - a.pointsAgainst) ||
+      nameOf(a.participantId).localeCompare(nameOf(b.participantId), 'sv')
+  )
+}
+
+export function getGroupCount(tournament: Tournament): number {
+  return tournament.matches.reduce((max, m) => (m.group === null ? max : Math.max(max, m.group + 1)), 0)
+}
+
+/** Turneringens vinnare – finalvinnaren i utslagsturnering. */
+export function getTournamentWinner(tournament: Tournament): string | null {
+  if (tournament.type !== 'knockout') return null
+  const final = tournament.matches.find((m) => m.round === getRoundCount(tournament) - 1)
+  return final?.winner ?? null
+}
+
+const TOURNAMENTS_STORAGE_KEY = 'badminton-tournaments'
+
+function parseParticipant(data: unknown): TournamentParticipant | null {
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (typeof d.id !== 'string') return null
+  return { id: d.id, name: typeof d.name === 'string' ? d.name : '', playerId: parsePlayerId(d.playerId) }
+}
+
+function parseOptionalId(value: unknown): string | null {
+  return typeof value === 'string' ? value : null
+}
+
+function parseTournamentMatch(data: unknown): TournamentMatch | null {
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (typeof d.id !== 'string') return null
+  const r = d.result && typeof d.result === 'object' ? (d.result as Record<string, unknown>) : null
+  return {
+    id: d.id,
+    round: Number(d.round) || 0,
+    group: typeof d.group === 'number' ? d.group : null,
+    side1: parseOptionalId(d.side1),
+    side2: parseOptionalId(d.side2),
+    court: typeof d.court === 'number' ? d.court : null,
+    counterMatchId: parseOptionalId(d.counterMatchId),
+    winner: parseOptionalId(d.winner),
+    result: r
+      ? { set1: Number(r.set1) || 0, set2: Number(r.set2) || 0, games: parseGameScores(r.games) }
+      : null,
+  }
+}
+
+function parseTournament(data: unknown): Tournament | null {
+  if (!data || typeof data !== 'object') return null
+  const d = data as Record<string, unknown>
+  if (typeof d.id !== 'string') return null
+  return {
+    id: d.id,
+    name: typeof d.name === 'string' ? d.name : getMessages().tournament.defaultName,
+    type: d.type === 'knockout' ? 'knockout' : 'roundrobin',
+    format: parseMatchFormat(d.format),
+    courts: Math.max(1, Number(d.courts) || 1),
+    participants: (Array.isArray(d.participants) ? d.participants : [])
+      .map(parseParticipant)
+      .filter((p): p is TournamentParticipant => p !== null),
+    matches: (Array.isArray(d.matches) ? d.matches : [])
+      .map(parseTournamentMatch)
+      .filter((m): m is TournamentMatch => m !== null),
+    createdAt: Number(d.createdAt) || 0,
+  }
+}
+
+export function loadTournaments(): Tournament[] {
+  try {
+    const raw = localStorage.getItem(TOURNAMENTS_STORAGE_KEY)
+    if (!raw) return []
+    const data: unknown = JSON.parse(raw)
+    if (!Array.isArray(data)) return []
+    return data.map(parseTournament).filter((t): t is Tournament => t !== null)
+  } catch {
+    return []
+  }
+}
+
+export function saveTournament(tournament: Tournament): void {
+  const others = loadTournaments().filter((t) => t.id !== tournament.id)
+  localStorage.setItem(TOURNAMENTS_STORAGE_KEY, JSON.stringify([tournament, ...others]))
+}
+
+export function deleteTournament(id: string): void {
+  const rest = loadTournaments().filter((t) => t.id !== id)
+  localStorage.setItem(TOURNAMENTS_STORAGE_KEY, JSON.stringify(rest))
+}
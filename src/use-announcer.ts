@@ -0,0 +1,29 @@
+import { useEffect, useRef, useState } from 'react'
+import type { ScoreboardState } from './App'
+import {
+  getAnnouncement,
+  loadAnnouncerSettings,
+  saveAnnouncerSettings,
+  speak,
+  type AnnouncerSettings,
+} from './announcer'
+
+/** Utropsinställningarna för enheten; ändringar sparas direkt. */
+export function useAnnouncerSettings(): [AnnouncerSettings, (settings: AnnouncerSettings) => void] {
+  const [settings, setSettings] = useState<AnnouncerSettings>(loadAnnouncerSettings)
+  const update = (next: AnnouncerSettings) => {
+    setSettings(next)
+    saveAnnouncerSettings(next)
+  }
+  return [settings, update]
+}
+
+/** Ropar ut ställningen när en ny boll registreras i state. */
+export function useAnnouncer(state: ScoreboardState, settings: AnnouncerSettings): void {
+  const prev = useRef(state)
+  useEffect(() => {
+    const text = getAnnouncement(prev.current, state, settings.language)
+    prev.current = state
+    if (text) speak(text, settings)
+  }, [state, settings])
+}
@@ -0,0 +1,42 @@
+/**
+ * Tavlans utseende – poängräknarens val för enheten, och tavlornas kopia som
+ * följer poängräknaren via storage-eventet (andra flikar) och synken (andra enheter).
+ */
+import { useEffect, useState } from 'react'
+import {
+  DISPLAY_SETTINGS_STORAGE_KEY,
+  loadDisplaySettings,
+  parseDisplaySettingsJson,
+  saveDisplaySettings,
+  type DisplaySettings,
+} from './display-settings'
+import { subscribeDisplaySettings } from './sync'
+
+/** Utseendet som valts på enheten; ändringar sparas direkt. */
+export function useDeviceDisplaySettings(): [DisplaySettings, (settings: DisplaySettings) => void] {
+  const [settings, setSettings] = useState<DisplaySettings>(loadDisplaySettings)
+  const update = (next: DisplaySettings) => {
+    setSettings(next)
+    saveDisplaySettings(next)
+  }
+  return [settings, update]
+}
+
+/** Utseendet som poängräknaren valt för matchen. */
+export function useDisplaySettings(matchId: string, readToken: string | null): DisplaySettings {
+  const [settings, setSettings] = useState<DisplaySettings>(loadDisplaySettings)
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key !== DISPLAY_SETTINGS_STORAGE_KEY) return
+      const next = parseDisplaySettingsJson(e.newValue)
+      if (next) setSettings(next)
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  }, [])
+
+  useEffect(() => subscribeDisplaySettings(matchId, readToken, setSettings), [matchId, readToken])
+
+  return settings
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef, useState } from 'react'
+import {
+  findInputAction,
+  loadInputBindings,
+  saveInputBindings,
+  type InputAction,
+  type InputBinding,
+  type InputBindings,
+} from './input-bindings'
+
+/** Knappbindningarna för enheten; ändringar sparas direkt. */
+export function useInputBindings(): [InputBindings, (bindings: InputBindings) => void] {
+  const [bindings, setBindings] = useState<InputBindings>(loadInputBindings)
+  const update = (next: InputBindings) => {
+    setBindings(next)
+    saveInputBindings(next)
+  }
+  return [bindings, update]
+}
+
+/** Tangenttryck i textfält går till fältet – namn ska kunna skrivas utan att poäng registreras. */
+function isTyping(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+}
+
+/**
+ * Lyssnar på tangenttryck och handkontrollknappar så länge active är sant.
+ * onInput returnerar true om trycket användes – då stoppas webbläsarens
+ * standardbeteende (t.ex. att PageDown rullar sidan).
+ */
+function useRawInput(active: boolean, onInput: (binding: InputBinding) => boolean): void {
+  const handler = useRef(onInput)
+  handler.current = onInput
+
+  useEffect(() => {
+    if (!active) return
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || e.ctrlKey || e.metaKey || e.altKey || isTyping(e.target)) return
+      if (handler.current({ kind: 'key', code: e.code })) e.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+
+    // Gamepad API har inga knapphändelser – knapparna läses av varje bildruta
+    // och ett tryck räknas när knappen går från uppsläppt till nedtryckt.
+    const pressed = new Map<number, boolean[]>()
+    let frame: number | null = null
+    const poll = () => {
+      frame = null
+      const pads = navigator.getGamepads?.() ?? []
+      let connected = false
+      for (const pad of pads) {
+        if (!pad) continue
+        connected = true
+        const before = pressed.get(pad.index)
+        const now = pad.buttons.map((b) => b.pressed)
+        // Knappar som redan var nedtryckta när lyssningen startade räknas inte
+        now.forEach((down, button) => {
+          if (before && down && !before[button]) handler.current({ kind: 'gamepad', button })
+        })
+        pressed.set(pad.index, now)
+      }
+      if (connected) frame = requestAnimationFrame(poll)
+    }
+    const onConnected = () => {
+      if (frame === null) frame = requestAnimationFrame(poll)
+    }
+    window.addEventListener('gamepadconnected', onConnected)
+    onConnected()
+
+    return () => {
+      window.removeEventListener('keydown', onKeyDown)
+      window.removeEventListener('gamepadconnected', onConnected)
+      if (frame !== null) cancelAnimationFrame(frame)
+    }
+  }, [active])
+}
+
+/** Kör onAction för tryck som är bundna till en åtgärd. */
+export function useInputActions(
+  bindings: InputBindings,
+  onAction: (action: InputAction) => void,
+  active: boolean
+): void {
+  useRawInput(active, (binding) => {
+    const action = findInputAction(bindings, binding)
+    if (action) onAction(action)
+    return action !== null
+  })
+}
+
+/** Fångar nästa tangent eller handkontrollknapp, t.ex. när en bindning ändras. */
+export function useInputCapture(active: boolean, onCapture: (binding: InputBinding) => void): void {
+  useRawInput(active, (binding) => {
+    onCapture(binding)
+    return true
+  })
+}
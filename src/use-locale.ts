@@ -0,0 +1,17 @@
+import { useEffect, useState } from 'react'
+import { getLocale, getMessages, subscribeLocale, type Locale, type Messages } from './i18n'
+
+/** Valt språk, uppdateras när det byts i språkväljaren. */
+export function useLocale(): Locale {
+  const [locale, setLocale] = useState<Locale>(getLocale)
+  useEffect(() => {
+    setLocale(getLocale())
+    return subscribeLocale(setLocale)
+  }, [])
+  return locale
+}
+
+/** Meddelandekatalogen för valt språk. */
+export function useMessages(): Messages {
+  return getMessages(useLocale())
+}
@@ -0,0 +1,37 @@
+/**
+ * Håller en visares kopia av matchstate uppdaterad – via storage-eventet
+ * (andra flikar i samma webbläsare) och molnsynk (andra enheter). Synkade
+ * uppdateringar kräver matchens läsnyckel.
+ */
+import { useEffect, useState } from 'react'
+import type { ScoreboardState } from './App'
+import { parseMatchStateJson } from './match-codec'
+import { subscribeMatchState } from './sync'
+import { EMPTY_STATE, getMatchStorageKey, loadMatchState } from './match-storage'
+import { isStaleState } from './match-version'
+
+export function useMatchState(matchId: string, readToken: string | null): ScoreboardState {
+  const [state, setState] = useState<ScoreboardState>(() => loadMatchState(matchId) ?? EMPTY_STATE)
+  const storageKey = getMatchStorageKey(matchId)
+
+  useEffect(() => {
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === storageKey && e.newValue) {
+        const next = parseMatchStateJson(e.newValue)
+        if (next) setState((prev) => (isStaleState(next, prev) ? prev : next))
+      }
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  }, [storageKey])
+
+  useEffect(() => {
+    const unsubscribe = subscribeMatchState(matchId, readToken, (newState) => {
+      // Uppdateringar kan komma i fel ordning, t.ex. från både localStorage och molnet
+      setState((prev) => (isStaleState(newState, prev) ? prev : newState))
+    })
+    return unsubscribe
+  }, [matchId, readToken])
+
+  return state
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react'
+
+/** Aktuell tid (ms sedan epoch), uppdateras varje steg så länge active är sant. */
+export function useNow(active: boolean, stepMs = 1000): number {
+  const [now, setNow] = useState(Date.now)
+  useEffect(() => {
+    if (!active) return
+    setNow(Date.now())
+    const timer = window.setInterval(() => setNow(Date.now()), stepMs)
+    return () => window.clearInterval(timer)
+  }, [active, stepMs])
+  return now
+}
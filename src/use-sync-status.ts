@@ -0,0 +1,12 @@
+import { useEffect, useState } from 'react'
+import { getSyncStatus, subscribeSyncStatus, type SyncStatus } from './sync'
+
+/** Aktuell synkstatus (anslutning och köade uppdateringar), uppdateras vid ändring. */
+export function useSyncStatus(): SyncStatus {
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus)
+  useEffect(() => {
+    setStatus(getSyncStatus())
+    return subscribeSyncStatus(setStatus)
+  }, [])
+  return status
+}
@@ -0,0 +1,34 @@
+import { useEffect } from 'react'
+
+/**
+ * Håller skärmen tänd med Screen Wake Lock API så länge active är sant.
+ * Webbläsaren släpper låset när fliken döljs, så det begärs på nytt när
+ * sidan blir synlig igen. Utan stöd (eller utan HTTPS) händer ingenting.
+ */
+export function useWakeLock(active: boolean): void {
+  useEffect(() => {
+    if (!active || !('wakeLock' in navigator)) return
+    let sentinel: WakeLockSentinel | null = null
+    let cancelled = false
+
+    const request = async () => {
+      if (document.visibilityState !== 'visible' || (sentinel && !sentinel.released)) return
+      try {
+        const next = await navigator.wakeLock.request('screen')
+        if (cancelled) void next.release()
+        else sentinel = next
+      } catch {
+        // Nekas t.ex. i energisparläge – skärmen får då släckas som vanligt
+      }
+    }
+    const onVisibilityChange = () => void request()
+
+    void request()
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      cancelled = true
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+      if (sentinel && !sentinel.released) void sentinel.release()
+    }
+  }, [active])
+}
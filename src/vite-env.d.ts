@@ -1,8 +1,11 @@
 /// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
 
 interface ImportMetaEnv {
   readonly VITE_FIREBASE_API_KEY?: string
   readonly VITE_FIREBASE_DATABASE_URL?: string
+  readonly VITE_SYNC_PROVIDER?: string
+  readonly VITE_SYNC_WS_URL?: string
 }
 
 interface ImportMeta {
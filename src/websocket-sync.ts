@@ -0,0 +1,140 @@
+/**
+ * Synk via ett eget WebSocket-relä (server/relay.mjs) – fungerar i en hall
+ * utan internet så länge enheterna når datorn som kör reläet.
+ * Adress: VITE_SYNC_WS_URL, annars port 8787 på samma värd som appen.
+ */
+import { parseSignedState, type SignedState, type SyncProvider, type WriteResult } from './sync-provider'
+
+const DEFAULT_RELAY_PORT = 8787
+const RECONNECT_DELAY_MS = 2000
+/** Reläet svarar inte på skrivningar det inte kan tolka – utan ack räknas skrivningen som misslyckad. */
+const ACK_TIMEOUT_MS = 10_000
+
+/**
+ * Meddelanden mellan klient och relä, skickade som JSON. Varje skrivning
+ * kvitteras med ack. Skrivtoken stannar i reläet och skickas aldrig vidare.
+ */
+type RelayMessage =
+  | { type: 'subscribe'; matchId: string }
+  | { type: 'unsubscribe'; matchId: string }
+  | { type: 'write'; matchId: string; writeId: number; state: SignedState; writeToken: string }
+  | { type: 'ack'; writeId: number; result: WriteResult }
+  | { type: 'state'; matchId: string; state: unknown }
+
+interface PendingWrite {
+  resolve: (result: WriteResult) => void
+  reject: (error: Error) => void
+}
+
+export function getDefaultRelayUrl(): string {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:'
+  return `${protocol}//${window.location.hostname}:${DEFAULT_RELAY_PORT}`
+}
+
+export function createWebSocketSync(url: string): SyncProvider {
+  const listeners = new Map<string, Set<(update: SignedState) => void>>()
+  const connectionListeners = new Set<(connected: boolean) => void>()
+  const awaitingAck = new Map<number, PendingWrite>()
+  let nextWriteId = 1
+  let socket: WebSocket | null = null
+  let connected = false
+
+  const setConnected = (value: boolean) => {
+    if (connected === value) return
+    connected = value
+    connectionListeners.forEach((onChange) => onChange(value))
+  }
+
+  const send = (message: RelayMessage): boolean => {
+    if (socket?.readyState !== WebSocket.OPEN) return false
+    socket.send(JSON.stringify(message))
+    return true
+  }
+
+  const connect = () => {
+    if (socket) return
+    try {
+      socket = new WebSocket(url)
+    } catch {
+      socket = null
+      return
+    }
+    socket.onopen = () => {
+      for (const matchId of listeners.keys()) send({ type: 'subscribe', matchId })
+      setConnected(true)
+    }
+    socket.onmessage = (e: MessageEvent) => {
+      let message: RelayMessage
+      try {
+        message = JSON.parse(String(e.data)) as RelayMessage
+      } catch {
+        return
+      }
+      if (message.type === 'ack') {
+        awaitingAck.get(message.writeId)?.resolve(message.result)
+        awaitingAck.delete(message.writeId)
+      } else if (message.type === 'state') {
+        const update = parseSignedState(message.state)
+        if (update) listeners.get(message.matchId)?.forEach((onUpdate) => onUpdate(update))
+      }
+    }
+    socket.onclose = () => {
+      socket = null
+      setConnected(false)
+      // Okvitterade skrivningar får skickas om när anslutningen är tillbaka
+      awaitingAck.forEach((pending) => pending.reject(new Error('Anslutningen till reläet bröts')))
+      awaitingAck.clear()
+      window.setTimeout(connect, RECONNECT_DELAY_MS)
+    }
+  }
+
+  return {
+    id: 'websocket',
+    remote: true,
+    write(matchId, update, writeToken) {
+      connect()
+      const writeId = nextWriteId++
+      return new Promise((resolve, reject) => {
+        if (!send({ type: 'write', matchId, writeId, state: update, writeToken })) {
+          reject(new Error('Inte ansluten till reläet'))
+          return
+        }
+        const timer = window.setTimeout(() => {
+          awaitingAck.delete(writeId)
+          reject(new Error('Reläet kvitterade inte skrivningen'))
+        }, ACK_TIMEOUT_MS)
+        awaitingAck.set(writeId, {
+          resolve: (result) => {
+            window.clearTimeout(timer)
+            resolve(result)
+          },
+          reject: (error) => {
+            window.clearTimeout(timer)
+            reject(error)
+          },
+        })
+      })
+    },
+    subscribe(matchId, onUpdate) {
+      connect()
+      const set = listeners.get(matchId) ?? new Set()
+      set.add(onUpdate)
+      listeners.set(matchId, set)
+      if (set.size === 1) send({ type: 'subscribe', matchId })
+      return () => {
+        set.delete(onUpdate)
+        if (set.size > 0) return
+        listeners.delete(matchId)
+        send({ type: 'unsubscribe', matchId })
+      }
+    },
+    watchConnection(onChange) {
+      connect()
+      connectionListeners.add(onChange)
+      onChange(connected)
+      return () => {
+        connectionListeners.delete(onChange)
+      }
+    },
+  }
+}
@@ -1,8 +1,37 @@
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    VitePWA({
+      // Ny version installeras först när användaren väljer det – inte mitt i en match
+      registerType: 'prompt',
+      manifest: {
+        name: 'Badminton Poängräknare',
+        short_name: 'Badminton',
+        description: 'Poängräkning, resultattavla och turneringar för badminton',
+        lang: 'sv',
+        theme_color: '#1a472a',
+        background_color: '#1a472a',
+        display: 'standalone',
+        start_url: './',
+        scope: './',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        // Typsnitten kommer från @fontsource och ligger i bygget som woff2
+        globPatterns: ['**/*.{js,css,html,svg,png,woff2}'],
+        // jsPDF-bundlen är större än standardgränsen på 2 MiB
+        maximumFileSizeToCacheInBytes: 5 * 1024 * 1024,
+      },
+    }),
+  ],
   base: './',
   server: {
     host: true, // Lyssnar på 0.0.0.0 så telefon/andra enheter på samma WiFi når servern